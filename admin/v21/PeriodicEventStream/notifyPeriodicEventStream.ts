@@ -0,0 +1,18 @@
+import * as uuid from "uuid";
+import { sendAdminCommand } from "../../admin";
+
+const streamId = Number(process.env.STREAM_ID ?? 1);
+
+sendAdminCommand({
+  action: "NotifyPeriodicEventStream",
+  messageId: uuid.v4(),
+  payload: {
+    id: streamId,
+    pending: 0,
+    basetime: new Date(),
+    data: [
+      { t: 0, v: "230.1" },
+      { t: 1, v: "229.8" },
+    ],
+  },
+});
@@ -2,11 +2,26 @@ import { OcppVersion } from "../src/ocppVersion";
 import { bootNotificationOcppMessage } from "../src/v16/messages/bootNotification";
 import { statusNotificationOcppMessage } from "../src/v16/messages/statusNotification";
 import { meterValuesOcppMessage } from "../src/v16/messages/meterValues";
-import { authorizeOcppMessage } from "../src/v16/messages/authorize";
 import { startTransactionOcppMessage } from "../src/v16/messages/startTransaction";
 import { stopTransactionOcppMessage } from "../src/v16/messages/stopTransaction";
 import { VCP } from "../src/vcp";
+import type { FirmwareFailure } from "../src/firmwareManager";
+import type { PendingCall } from "../src/ocppOutbox";
+import type { TlsOptions } from "../src/securityProfile";
+import type { TransactionState } from "../src/transactionManager";
+import type {
+  ChargePointErrorCode,
+  ChargePointStatus,
+  ConnectorEvent
+} from "../src/connectorStateMachine";
 import { call } from "../src/messageFactory";
+import { authorizeIdTag } from "../src/localAuthorization";
+import {
+  type MeterReading,
+  configuredMeasurands,
+  sampleMeterValue,
+  stopTransactionData
+} from "../src/meterValueSampler";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
@@ -27,6 +42,7 @@ export interface ChargerConfig {
   meterSerialNumber?: string;
   iccid?: string;
   imsi?: string;
+  tls?: TlsOptions; // CA / client certificate paths for wss:// (Security Profile 2 and 3)
 }
 
 export interface ConnectorState {
@@ -38,6 +54,7 @@ export interface ConnectorState {
   energyImported: number; // Wh cumulative
   transactionId?: number;
   idTag?: string;
+  meterStart?: number; // Wh at the start of the current transaction
   carSimulator?: CarSimulator;
 }
 
@@ -45,11 +62,14 @@ export interface ManagedCharger {
   config: ChargerConfig;
   vcp: VCP | null;
   connected: boolean;
+  reconnectAttempt?: number; // Set while the VCP is reconnecting
   connectors: ConnectorState[];
   meterInterval?: NodeJS.Timeout;
+  firmwareFailure?: FirmwareFailure; // Forced verification failure of signed firmware updates
 }
 
 const CHARGERS_FILE = path.join(__dirname, "..", "chargers.json");
+const STATE_DIR = path.join(__dirname, "..", "state");
 const DEFAULT_WS_URL = "ws://proxy.plugchoice.com/v1";
 
 export class ChargerManager {
@@ -116,12 +136,22 @@ export class ChargerManager {
     cpId: string;
     config: ChargerConfig;
     connected: boolean;
+    reconnectAttempt?: number;
+    queuedMessages: number;
+    pendingCalls: number;
+    validationViolations: Record<string, number>;
+    firmwareFailure?: FirmwareFailure;
     connectors: any[];
   }> {
     return Array.from(this.chargers.entries()).map(([cpId, charger]) => ({
       cpId,
       config: charger.config,
       connected: charger.connected,
+      reconnectAttempt: charger.reconnectAttempt,
+      queuedMessages: charger.vcp?.offlineQueue.size ?? 0,
+      pendingCalls: charger.vcp?.getPendingCalls().length ?? 0,
+      validationViolations: charger.vcp?.getValidationViolations() ?? {},
+      firmwareFailure: charger.firmwareFailure,
       connectors: charger.connectors.map((c) =>
         this.serializeConnector(cpId, c)
       ),
@@ -132,6 +162,29 @@ export class ChargerManager {
     return this.chargers.get(cpId);
   }
 
+  // JSONL message trace of a charger, kept across connections
+  getTracePath(cpId: string): string {
+    return path.join(STATE_DIR, cpId, "trace.jsonl");
+  }
+
+  getPendingCalls(cpId: string): PendingCall[] | undefined {
+    const charger = this.chargers.get(cpId);
+    if (!charger) return undefined;
+    return charger.vcp?.getPendingCalls() ?? [];
+  }
+
+  // Also applies to a VCP connected later on
+  setFirmwareFailure(cpId: string, failure?: FirmwareFailure): boolean {
+    const charger = this.chargers.get(cpId);
+    if (!charger) return false;
+
+    charger.firmwareFailure = failure;
+    if (charger.vcp) {
+      charger.vcp.firmware.failure = failure;
+    }
+    return true;
+  }
+
   addCharger(config: ChargerConfig): boolean {
     if (this.chargers.has(config.cpId)) {
       return false;
@@ -161,7 +214,7 @@ export class ChargerManager {
 
   async connectCharger(cpId: string): Promise<boolean> {
     const charger = this.chargers.get(cpId);
-    if (!charger || charger.connected) return false;
+    if (!charger || charger.connected || charger.vcp) return false;
 
     // Validate WebSocket URL
     if (!this.wsUrl || !this.wsUrl.startsWith("ws://") && !this.wsUrl.startsWith("wss://")) {
@@ -169,28 +222,45 @@ export class ChargerManager {
       return false;
     }
 
+    let createdVcp: VCP | undefined;
     try {
       const vcp = new VCP({
         endpoint: this.wsUrl,
         chargePointId: cpId,
         ocppVersion: OcppVersion.OCPP_1_6,
         exitOnClose: false, // Don't exit the dashboard process on disconnect
+        tls: charger.config.tls,
+        stateDir: path.join(STATE_DIR, cpId), // Offline queue and configuration survive restarts
+        traceFile: this.getTracePath(cpId),
         onClose: (code, reason) => {
           console.log(`[DISCONNECTED] ${cpId}: code=${code}, reason=${reason}`);
           const ch = this.chargers.get(cpId);
           if (ch) {
             ch.connected = false;
+            ch.reconnectAttempt = undefined;
             ch.vcp = null;
             this.stopMeterValues(cpId);
           }
         },
         onError: (err) => {
+          // Connection state is handled by onClose / the reconnect callbacks
           console.error(`[ERROR] ${cpId}: ${err.message}`);
+        },
+        onReconnecting: (attempt, delayMs) => {
+          console.log(`[RECONNECTING] ${cpId}: attempt ${attempt} in ${delayMs}ms`);
           const ch = this.chargers.get(cpId);
           if (ch) {
             ch.connected = false;
-            ch.vcp = null;
-            this.stopMeterValues(cpId);
+            ch.reconnectAttempt = attempt;
+          }
+        },
+        onReconnected: (attempts) => {
+          // VCP re-sends BootNotification and the last StatusNotifications itself
+          console.log(`[RECONNECTED] ${cpId}: after ${attempts} attempt(s)`);
+          const ch = this.chargers.get(cpId);
+          if (ch) {
+            ch.connected = true;
+            ch.reconnectAttempt = undefined;
           }
         },
         config: {
@@ -203,6 +273,40 @@ export class ChargerManager {
           meterSerialNumber: charger.config.meterSerialNumber,
         },
       });
+      createdVcp = vcp;
+
+      vcp.firmware.failure = charger.firmwareFailure;
+
+      // Charging profiles set the offered current, SuspendedEVSE at zero
+      vcp.on("chargingLimitChanged", (connectorId, limitA) => {
+        const connector = charger.connectors.find(
+          (c) => c.connectorId === connectorId
+        );
+        if (!connector) return;
+        this.setChargingCurrent(cpId, connectorId, limitA);
+        connector.status = vcp.connectors.status(connectorId);
+      });
+
+      // Transactions stopped by the CSMS (RemoteStopTransaction)
+      vcp.on("transactionStopped", (tx) => {
+        const connector = charger.connectors.find(
+          (c) => c.transactionId === tx.transactionId
+        );
+        if (!connector) return;
+        connector.transactionId = undefined;
+        connector.idTag = undefined;
+        connector.meterStart = undefined;
+        connector.powerImport = 0;
+        connector.status = vcp.connectors.status(connector.connectorId);
+      });
+
+      // Restart meter values reporting with the new interval
+      vcp.on("configurationChanged", (key) => {
+        if (key === "MeterValueSampleInterval" && charger.meterInterval) {
+          this.stopMeterValues(cpId);
+          this.startMeterValues(cpId);
+        }
+      });
 
       await vcp.connect();
 
@@ -256,6 +360,8 @@ export class ChargerManager {
       return true;
     } catch (err) {
       console.error(`[FAILED] ${cpId}:`, err);
+      // A VCP that connected would otherwise keep reconnecting on its own
+      createdVcp?.close();
       charger.connected = false;
       charger.vcp = null;
       return false;
@@ -280,16 +386,16 @@ export class ChargerManager {
 
   disconnectCharger(cpId: string): boolean {
     const charger = this.chargers.get(cpId);
-    if (!charger || !charger.connected) return false;
+    // A reconnecting charger has a VCP but is not connected
+    if (!charger || !charger.vcp) return false;
 
     try {
       this.stopMeterValues(cpId);
 
-      if (charger.vcp) {
-        charger.vcp.close();
-      }
+      charger.vcp.close();
 
       charger.connected = false;
+      charger.reconnectAttempt = undefined;
       charger.vcp = null;
 
       console.log(`[DISCONNECTED] ${cpId}`);
@@ -304,9 +410,13 @@ export class ChargerManager {
     const charger = this.chargers.get(cpId);
     if (!charger || !charger.vcp) return;
 
-    // Send meter values every 15 seconds for connectors that are charging
+    // Send meter values every MeterValueSampleInterval seconds for connectors that are charging
+    // While reconnecting, transaction meter values go to the VCP's offline queue
+    const intervalSec = charger.vcp.configuration.getInteger("MeterValueSampleInterval") ?? 15;
+    if (intervalSec <= 0) return;
+
     charger.meterInterval = setInterval(() => {
-      if (!charger.vcp || !charger.connected) return;
+      if (!charger.vcp) return;
 
       for (const connector of charger.connectors) {
         if (connector.status === "Charging" && connector.currentImport > 0) {
@@ -318,24 +428,15 @@ export class ChargerManager {
           if (connector.carSimulator) {
             // Car simulator mode: tick the simulation
             const sim = connector.carSimulator;
-            const result = sim.tick(15);
+            const result = sim.tick(intervalSec);
             perPhaseCurrent = result.currentA;
             effectivePhases = sim.getEffectivePhases();
             socPercent = sim.getSocPercent();
 
             // SuspendedEV override: when car reaches 100% SoC
             if (socPercent >= 100 && result.currentA === 0) {
-              connector.status = "SuspendedEV";
               connector.powerImport = 0;
-              if (charger.vcp && charger.connected) {
-                charger.vcp.send(
-                  statusNotificationOcppMessage.request({
-                    connectorId: connector.connectorId,
-                    errorCode: connector.errorCode as any,
-                    status: "SuspendedEV" as any,
-                  })
-                );
-              }
+              this.applyConnectorEvent(cpId, connector.connectorId, "EVSuspended");
             }
           } else {
             // Manual mode: current flows on all charger phases
@@ -365,141 +466,38 @@ export class ChargerManager {
             voltageL3 * currentL3;
 
           // Energy increment from actual power * time
-          const energyIncrementWh = (reportPower * 15) / 3600;
+          const energyIncrementWh = (reportPower * intervalSec) / 3600;
           connector.energyImported += energyIncrementWh;
           connector.powerImport = reportPower;
 
-          // Simulate temperatures with small jitter
-          const bodyTemp = 20 + (Math.random() * 2 - 1);
-          const cableTemp = 19 + (Math.random() * 2 - 1);
-
-          const sampledValue: Array<{
-            value: string;
-            measurand: string;
-            unit: string;
-            context: string;
-            phase?: string;
-            location?: string;
-          }> = [
-            {
-              value: (connector.energyImported / 1000).toFixed(3),
-              measurand: "Energy.Active.Import.Register",
-              unit: "kWh",
-              context: "Sample.Periodic",
-              location: "Outlet",
-            },
-            {
-              value: connector.currentImport.toFixed(2),
-              measurand: "Current.Offered",
-              unit: "A",
-              context: "Sample.Periodic",
-              location: "Outlet",
-            },
-            {
-              value: bodyTemp.toFixed(2),
-              measurand: "Temperature",
-              unit: "Celsius",
-              context: "Sample.Periodic",
-              location: "Body",
-            },
-            {
-              value: cableTemp.toFixed(2),
-              measurand: "Temperature",
-              unit: "Celsius",
-              context: "Sample.Periodic",
-              location: "Cable",
-            },
-            // L1 always present
-            {
-              value: voltageL1.toFixed(2),
-              measurand: "Voltage",
-              unit: "V",
-              context: "Sample.Periodic",
-              location: "Outlet",
-              phase: "L1",
-            },
-            {
-              value: currentL1.toFixed(2),
-              measurand: "Current.Import",
-              unit: "A",
-              context: "Sample.Periodic",
-              location: "Outlet",
-              phase: "L1",
-            },
-          ];
-
           // L2/L3 only reported on 3-phase charger installations
-          if (chargerPhases === 3) {
-            sampledValue.push(
-              {
-                value: voltageL2.toFixed(2),
-                measurand: "Voltage",
-                unit: "V",
-                context: "Sample.Periodic",
-                location: "Outlet",
-                phase: "L2",
-              },
-              {
-                value: currentL2.toFixed(2),
-                measurand: "Current.Import",
-                unit: "A",
-                context: "Sample.Periodic",
-                location: "Outlet",
-                phase: "L2",
-              },
-              {
-                value: voltageL3.toFixed(2),
-                measurand: "Voltage",
-                unit: "V",
-                context: "Sample.Periodic",
-                location: "Outlet",
-                phase: "L3",
-              },
-              {
-                value: currentL3.toFixed(2),
-                measurand: "Current.Import",
-                unit: "A",
-                context: "Sample.Periodic",
-                location: "Outlet",
-                phase: "L3",
-              }
-            );
-          }
-
-          sampledValue.push({
-            value: reportPower.toFixed(2),
-            measurand: "Power.Active.Import",
-            unit: "W",
-            context: "Sample.Periodic",
-            location: "Outlet",
-          });
-
-          // Add SoC measurand when car simulator is active
-          if (socPercent !== undefined) {
-            sampledValue.push({
-              value: socPercent.toString(),
-              measurand: "SoC",
-              unit: "Percent",
-              context: "Sample.Periodic",
-              location: "EV",
-            });
-          }
+          const reading: MeterReading = {
+            energyWh: connector.energyImported,
+            offeredCurrentA: connector.currentImport,
+            currentA: [currentL1, currentL2, currentL3].slice(0, chargerPhases),
+            voltageV: [voltageL1, voltageL2, voltageL3].slice(0, chargerPhases),
+            temperatureC: 20 + (Math.random() * 2 - 1),
+            socPercent,
+          };
+
+          // Only the measurands configured in MeterValuesSampledData
+          const meterValue = sampleMeterValue(
+            reading,
+            configuredMeasurands(charger.vcp.configuration, "MeterValuesSampledData"),
+            "Sample.Periodic"
+          );
+          if (!meterValue) continue;
 
           charger.vcp.send(
             meterValuesOcppMessage.request({
               connectorId: connector.connectorId,
               transactionId: connector.transactionId,
-              meterValue: [
-                {
-                  timestamp: new Date().toISOString(),
-                  sampledValue: sampledValue as any,
-                },
-              ],
+              meterValue: [meterValue],
             })
           );
         }
       }
-    }, 15000);
+    }, intervalSec * 1000);
   }
 
   private stopMeterValues(cpId: string) {
@@ -524,23 +522,45 @@ export class ChargerManager {
     );
     if (!connector) return false;
 
+    // The state machine sends the StatusNotification and rejects transitions
+    // OCPP does not allow (while reconnecting the VCP re-sends the latest one once online)
+    if (
+      charger.vcp &&
+      !charger.vcp.connectors.setStatus(
+        connectorId,
+        status as ChargePointStatus,
+        errorCode as ChargePointErrorCode
+      )
+    ) {
+      return false;
+    }
+
     connector.status = status;
     connector.errorCode = errorCode;
 
-    // If connected, send StatusNotification
-    if (charger.vcp && charger.connected) {
-      charger.vcp.send(
-        statusNotificationOcppMessage.request({
-          connectorId,
-          errorCode,
-          status,
-        })
-      );
-    }
-
     return true;
   }
 
+  // Applies a connector event (cable plug, EV suspend, ...) to the VCP state machine
+  private applyConnectorEvent(
+    cpId: string,
+    connectorId: number,
+    event: ConnectorEvent
+  ): boolean {
+    const charger = this.chargers.get(cpId);
+    const connector = charger?.connectors.find(
+      (c) => c.connectorId === connectorId
+    );
+    if (!charger?.vcp || !connector) return false;
+
+    const applied = charger.vcp.connectors.handle(connectorId, event);
+    connector.status = charger.vcp.connectors.status(connectorId);
+    if (applied && event !== "Faulted") {
+      connector.errorCode = "NoError";
+    }
+    return applied;
+  }
+
   setChargingCurrent(
     cpId: string,
     connectorId: number,
@@ -753,13 +773,11 @@ export class ChargerManager {
       charger.config.phases
     );
 
-    // If a transaction is already active (user started transaction first, then plugs in car),
-    // transition through SuspendedEV → Charging
-    if (connector.transactionId && connector.status === "Preparing") {
+    // Cable plugged in: Preparing, unless a transaction is already active
+    // (user started transaction first, then plugs in car)
+    this.applyConnectorEvent(cpId, connectorId, "CablePlugged");
+    if (connector.transactionId) {
       this.transitionToCharging(cpId, connectorId);
-    } else {
-      // No transaction yet — just go to Preparing (cable plugged in)
-      this.setConnectorStatus(cpId, connectorId, "Preparing");
     }
 
     return true;
@@ -776,13 +794,8 @@ export class ChargerManager {
 
     connector.carSimulator = undefined;
 
-    // If transaction is active, go to Preparing (cable unplugged but transaction still open)
-    // Otherwise go to Available
-    if (connector.transactionId) {
-      this.setConnectorStatus(cpId, connectorId, "Preparing");
-    } else {
-      this.setConnectorStatus(cpId, connectorId, "Available");
-    }
+    // SuspendedEV while the transaction is still open, Available otherwise
+    this.applyConnectorEvent(cpId, connectorId, "CableUnplugged");
 
     return true;
   }
@@ -851,66 +864,82 @@ export class ChargerManager {
     // Don't start if already in a transaction
     if (connector.transactionId) return false;
 
-    // Send Authorize
-    charger.vcp.send(
-      authorizeOcppMessage.request({ idTag })
-    );
+    const vcp = charger.vcp;
+
+    // Authorize the tap (local list, cache or Authorize per the configuration keys)
+    const idTagInfo = await authorizeIdTag(vcp, idTag);
+    if (idTagInfo.status !== "Accepted") {
+      console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: ${idTag} not authorized (${idTagInfo.status})`);
+      return false;
+    }
 
-    // Brief delay to let Authorize complete, then send StartTransaction
-    await new Promise((r) => setTimeout(r, 500));
+    // A reserved connector only starts for the reservation's idTag or parentIdTag
+    const reservation = vcp.reservations.checkStart(
+      connectorId,
+      idTag,
+      idTagInfo.parentIdTag ?? undefined
+    );
+    if (!reservation.allowed) {
+      console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: reserved for another idTag`);
+      return false;
+    }
 
-    charger.vcp.send(
+    // Wait for the transactionId from the CSMS response (StartTransaction resHandler → TransactionManager)
+    const onTransactionStarted = (tx: TransactionState) => {
+      if (tx.connectorId !== connectorId) return;
+      vcp.off("transactionStarted", onTransactionStarted);
+      clearTimeout(startTimeout);
+      connector.transactionId = tx.transactionId as number;
+      // Stop TransactionManager's own meter values timer (dashboard has its own),
+      // the transaction keeps running
+      vcp.transactionManager.detachMeterValues(tx.transactionId);
+      // Offer the current of the charging profiles
+      this.setChargingCurrent(
+        cpId,
+        connectorId,
+        vcp.chargingProfiles.offeredCurrent(connectorId)
+      );
+      console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: transactionId=${tx.transactionId}`);
+
+      // If car is already plugged in, start the charging sequence
+      // Otherwise, auto-plug a random car to simulate realistic EV behavior
+      if (!connector.carSimulator) {
+        const profile = CAR_PROFILES[Math.floor(Math.random() * CAR_PROFILES.length)];
+        const initialSoc = 0.1 + Math.random() * 0.5; // 10-60% SoC
+        connector.carSimulator = new CarSimulator(
+          profile,
+          initialSoc,
+          connector.currentImport,
+          charger.config.phases
+        );
+        console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: auto-plugged ${profile.name} at ${Math.round(initialSoc*100)}% SoC`);
+        this.applyConnectorEvent(cpId, connectorId, "CablePlugged");
+      }
+      this.transitionToCharging(cpId, connectorId);
+    };
+    const startTimeout = setTimeout(() => {
+      vcp.off("transactionStarted", onTransactionStarted);
+      console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: timed out waiting for transactionId`);
+    }, 10000);
+    vcp.on("transactionStarted", onTransactionStarted);
+
+    const meterStart = Math.round(connector.energyImported);
+    vcp.send(
       startTransactionOcppMessage.request({
         connectorId,
         idTag,
-        meterStart: Math.round(connector.energyImported),
+        meterStart,
+        reservationId: reservation.reservationId,
         timestamp: new Date().toISOString(),
       })
     );
 
     // Store idTag on connector for tracking
     connector.idTag = idTag;
+    connector.meterStart = meterStart;
 
-    // Set to Preparing (waiting for EV or already has one)
-    this.setConnectorStatus(cpId, connectorId, "Preparing");
-
-    // Poll for transactionId from CSMS response (comes via VCP's resHandler → TransactionManager)
-    let attempts = 0;
-    const maxAttempts = 50; // 10 seconds max
-    const pollInterval = setInterval(() => {
-      attempts++;
-      if (attempts > maxAttempts || !charger.vcp) {
-        clearInterval(pollInterval);
-        console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: timed out waiting for transactionId`);
-        return;
-      }
-      const txns = charger.vcp.transactionManager.transactions;
-      for (const [txId, tx] of txns) {
-        if (tx.connectorId === connectorId) {
-          clearInterval(pollInterval);
-          connector.transactionId = txId as number;
-          // Stop TransactionManager's own meter values timer (dashboard has its own)
-          charger.vcp.transactionManager.stopTransaction(txId);
-          console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: transactionId=${txId}`);
-
-          // If car is already plugged in, start the charging sequence
-          // Otherwise, auto-plug a random car to simulate realistic EV behavior
-          if (!connector.carSimulator) {
-            const profile = CAR_PROFILES[Math.floor(Math.random() * CAR_PROFILES.length)];
-            const initialSoc = 0.1 + Math.random() * 0.5; // 10-60% SoC
-            connector.carSimulator = new CarSimulator(
-              profile,
-              initialSoc,
-              connector.currentImport,
-              charger.config.phases
-            );
-            console.log(`[TRANSACTION] ${cpId} conn ${connectorId}: auto-plugged ${profile.name} at ${Math.round(initialSoc*100)}% SoC`);
-          }
-          this.transitionToCharging(cpId, connectorId);
-          return;
-        }
-      }
-    }, 200);
+    // Authorized: Preparing (waiting for EV or already has one)
+    this.applyConnectorEvent(cpId, connectorId, "Authorized");
 
     return true;
   }
@@ -921,20 +950,30 @@ export class ChargerManager {
     reason: string = "Local"
   ): Promise<boolean> {
     const charger = this.chargers.get(cpId);
-    if (!charger?.vcp || !charger.connected) return false;
+    // Allowed while reconnecting: StopTransaction is queued until back online
+    if (!charger?.vcp) return false;
 
     const connector = charger.connectors.find(
       (c) => c.connectorId === connectorId
     );
     if (!connector || !connector.transactionId) return false;
 
-    // Send StopTransaction
+    // Send StopTransaction with the StopTxnSampledData readings
+    const transaction = charger.vcp.transactionManager.transactions.get(connector.transactionId);
     charger.vcp.send(
       stopTransactionOcppMessage.request({
         transactionId: connector.transactionId,
         meterStop: Math.round(connector.energyImported),
         timestamp: new Date().toISOString(),
         reason,
+        transactionData: stopTransactionData(
+          charger.vcp.configuration,
+          {
+            startedAt: transaction?.startedAt ?? new Date(),
+            meterValue: connector.energyImported,
+          },
+          connector.meterStart
+        ),
       })
     );
 
@@ -943,14 +982,11 @@ export class ChargerManager {
     // Clear transaction state
     connector.transactionId = undefined;
     connector.idTag = undefined;
+    connector.meterStart = undefined;
     connector.powerImport = 0;
 
-    // Set connector status based on whether car is still plugged in
-    if (connector.carSimulator) {
-      this.setConnectorStatus(cpId, connectorId, "Preparing");
-    } else {
-      this.setConnectorStatus(cpId, connectorId, "Available");
-    }
+    // Finishing while the car is still plugged in, Available otherwise
+    this.applyConnectorEvent(cpId, connectorId, "TransactionStopped");
 
     return true;
   }
@@ -965,14 +1001,18 @@ export class ChargerManager {
     if (!connector) return;
 
     // Realistic: SuspendedEV first (EV initializing onboard charger)
-    this.setConnectorStatus(cpId, connectorId, "SuspendedEV");
+    this.applyConnectorEvent(cpId, connectorId, "EVSuspended");
 
-    // After 1-4 seconds, transition to Charging
+    // After 1-4 seconds, transition to Charging (SuspendedEVSE without offered current)
     const delay = 1000 + Math.random() * 3000;
     setTimeout(() => {
       // Only transition if still SuspendedEV with an active transaction
       if (connector.status === "SuspendedEV" && connector.transactionId) {
-        this.setConnectorStatus(cpId, connectorId, "Charging");
+        this.applyConnectorEvent(
+          cpId,
+          connectorId,
+          connector.currentImport > 0 ? "ChargingResumed" : "EVSESuspended"
+        );
       }
     }, delay);
   }
@@ -52,6 +52,50 @@ api.get("/chargers/:cpId", (c) => {
   });
 });
 
+// Get calls a charger sent that were not answered yet
+api.get("/chargers/:cpId/pending-calls", (c) => {
+  const cpId = c.req.param("cpId");
+  const pendingCalls = chargerManager.getPendingCalls(cpId);
+  if (!pendingCalls) {
+    return c.json({ error: "Charger not found" }, 404);
+  }
+  return c.json(pendingCalls);
+});
+
+// Download the JSONL message trace of a charger
+api.get("/chargers/:cpId/trace", (c) => {
+  const cpId = c.req.param("cpId");
+  if (!chargerManager.getCharger(cpId)) {
+    return c.json({ error: "Charger not found" }, 404);
+  }
+  const tracePath = chargerManager.getTracePath(cpId);
+  if (!fs.existsSync(tracePath)) {
+    return c.json({ error: "No trace recorded yet" }, 404);
+  }
+  c.header("Content-Type", "application/x-ndjson");
+  c.header("Content-Disposition", `attachment; filename="${cpId}-trace.jsonl"`);
+  return c.body(fs.readFileSync(tracePath, "utf-8"));
+});
+
+// Force a verification failure of signed firmware updates, null for none
+api.post("/chargers/:cpId/firmware-failure", async (c) => {
+  const cpId = c.req.param("cpId");
+  const body = await c.req.json();
+  const failure = body.failure ?? undefined;
+  if (
+    failure !== undefined &&
+    failure !== "InvalidCertificate" &&
+    failure !== "InvalidSignature"
+  ) {
+    return c.json({ error: "Invalid failure" }, 400);
+  }
+
+  if (chargerManager.setFirmwareFailure(cpId, failure)) {
+    return c.json({ success: true });
+  }
+  return c.json({ error: "Charger not found" }, 404);
+});
+
 // Add a charger
 api.post("/chargers", async (c) => {
   const body = await c.req.json();
@@ -67,6 +111,7 @@ api.post("/chargers", async (c) => {
     meterSerialNumber: body.meterSerialNumber,
     iccid: body.iccid,
     imsi: body.imsi,
+    tls: body.tls,
   };
 
   if (!config.cpId) {
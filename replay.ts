@@ -0,0 +1,40 @@
+require("dotenv").config();
+
+import { OcppVersion } from "./src/ocppVersion";
+import { TraceReplayer, loadTrace } from "./src/traceReplay";
+import { VCP } from "./src/vcp";
+
+const traceFile = process.env.TRACE_FILE;
+if (!traceFile) {
+  console.error("TRACE_FILE is required");
+  process.exit(1);
+}
+
+const ocppVersion = (process.env.OCPP_VERSION ??
+  OcppVersion.OCPP_1_6) as OcppVersion;
+if (!Object.values(OcppVersion).includes(ocppVersion)) {
+  console.error(
+    `OCPP_VERSION must be one of ${Object.values(OcppVersion).join(", ")}`,
+  );
+  process.exit(1);
+}
+
+const vcp = new VCP({
+  endpoint: process.env.WS_URL ?? "ws://localhost:3000",
+  chargePointId: process.env.CP_ID ?? "123456",
+  ocppVersion,
+  basicAuthPassword: process.env.PASSWORD ?? undefined,
+  exitOnClose: false,
+});
+
+(async () => {
+  await vcp.connect();
+  const replayer = new TraceReplayer(vcp, loadTrace(traceFile), {
+    speed: Number.parseFloat(process.env.REPLAY_SPEED ?? "1"),
+    skipActions: (process.env.SKIP_ACTIONS ?? "Heartbeat").split(","),
+  });
+  const report = await replayer.run();
+  console.log(JSON.stringify(report, null, 2));
+  vcp.close();
+  process.exit(report.divergences.length > 0 ? 1 : 0);
+})();
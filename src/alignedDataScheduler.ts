@@ -0,0 +1,228 @@
+import { MEASURANDS } from "./configurationStore";
+import {
+  type MeterReading,
+  configuredMeasurands,
+  sampleMeterValue,
+  simulateMeterReading,
+  toMeterValueType,
+} from "./meterValueSampler";
+import { OcppVersion } from "./ocppVersion";
+import type { TransactionState } from "./transactionManager";
+import { meterValuesOcppMessage } from "./v16/messages/meterValues";
+import { meterValuesOcppOutgoing as meterValues21 } from "./v21/messages/meterValues";
+import { transactionEventOcppOutgoing as transactionEvent21 } from "./v21/messages/transactionEvent";
+import { meterValuesOcppOutgoing as meterValues201 } from "./v201/messages/meterValues";
+import { transactionEventOcppOutgoing as transactionEvent201 } from "./v201/messages/transactionEvent";
+import type { VCP } from "./vcp";
+
+const DEFAULT_ALIGNED_MEASURANDS = ["Energy.Active.Import.Register"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AlignedDataSettings {
+  intervalSec: number; // 0 disables clock-aligned meter values
+  measurands: string[];
+  // OCPP 2.x: only send clock-aligned meter values while no transaction runs
+  sendDuringIdle: boolean;
+}
+
+// Next boundary of intervals counted from midnight UTC, so a 900s interval
+// fires at :00, :15, :30 and :45 of every hour
+export const nextAlignedBoundary = (now: Date, intervalSec: number): Date => {
+  const intervalMs = intervalSec * 1000;
+  const midnight = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+  const next =
+    midnight +
+    (Math.floor((now.getTime() - midnight) / intervalMs) + 1) * intervalMs;
+  return new Date(Math.min(next, midnight + DAY_MS));
+};
+
+const alignedDataSettings = (vcp: VCP, ocppVersion: OcppVersion) => {
+  if (ocppVersion === OcppVersion.OCPP_1_6) {
+    return {
+      intervalSec:
+        vcp.configuration.getInteger("ClockAlignedDataInterval") ?? 0,
+      measurands: configuredMeasurands(
+        vcp.configuration,
+        "MeterValuesAlignedData",
+      ),
+      sendDuringIdle: false,
+    };
+  }
+  return {
+    intervalSec: vcp.config.alignedDataInterval ?? 0,
+    measurands: vcp.config.alignedDataMeasurands ?? DEFAULT_ALIGNED_MEASURANDS,
+    sendDuringIdle: vcp.config.alignedDataSendDuringIdle ?? false,
+  };
+};
+
+// Sends Sample.Clock meter values on wall-clock boundaries for connector or
+// EVSE 0 (the main meter) and every connector or EVSE, idle or not
+export class AlignedDataScheduler {
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private vcp: VCP,
+    private ocppVersion: OcppVersion,
+  ) {}
+
+  get settings(): AlignedDataSettings {
+    return alignedDataSettings(this.vcp, this.ocppVersion);
+  }
+
+  start() {
+    this.stop();
+    const { intervalSec } = this.settings;
+    if (intervalSec <= 0) {
+      return;
+    }
+    const boundary = nextAlignedBoundary(new Date(), intervalSec);
+    this.timer = setTimeout(() => {
+      this.sendMeterValues(boundary);
+      this.start();
+    }, boundary.getTime() - Date.now());
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private sendMeterValues(timestamp: Date) {
+    const { measurands, sendDuringIdle } = this.settings;
+    const numberOfConnectors = this.vcp.config.numberOfConnectors ?? 1;
+    const transactionManager = this.vcp.transactionManager;
+    if (sendDuringIdle && transactionManager.transactions.size > 0) {
+      return;
+    }
+    for (let id = 0; id <= numberOfConnectors; id++) {
+      const transaction =
+        id === 0 ? undefined : transactionManager.getActiveTransaction(id);
+      const reading = simulateMeterReading(
+        { meterValue: this.registerOf(id) },
+        id === 0 ? transactionManager.transactions.size > 0 : !!transaction,
+        this.vcp.chargingProfiles.offeredCurrent(id, timestamp),
+      );
+      this.send(id, reading, measurands, timestamp, transaction);
+    }
+  }
+
+  // Connector or EVSE 0 is the main meter, the sum of all others
+  private registerOf(id: number): number {
+    if (id !== 0) {
+      return this.vcp.transactionManager.getRegister(id);
+    }
+    let register = 0;
+    for (let i = 1; i <= (this.vcp.config.numberOfConnectors ?? 1); i++) {
+      register += this.vcp.transactionManager.getRegister(i);
+    }
+    return register;
+  }
+
+  private send(
+    id: number,
+    reading: MeterReading,
+    measurands: string[],
+    timestamp: Date,
+    transaction?: TransactionState,
+  ) {
+    const meterValue = sampleMeterValue(
+      reading,
+      measurands,
+      "Sample.Clock",
+      timestamp,
+    );
+    if (!meterValue) {
+      return;
+    }
+    if (this.ocppVersion === OcppVersion.OCPP_1_6) {
+      this.vcp.send(
+        meterValuesOcppMessage.request({
+          connectorId: id,
+          transactionId: transaction?.transactionId as number | undefined,
+          meterValue: [meterValue],
+        }),
+      );
+      return;
+    }
+    const is21 = this.ocppVersion === OcppVersion.OCPP_2_1;
+    if (!transaction) {
+      const meterValues = is21 ? meterValues21 : meterValues201;
+      this.vcp.send(
+        meterValues.request({
+          evseId: id,
+          meterValue: [toMeterValueType(meterValue)],
+        }),
+      );
+      return;
+    }
+    // Clock-aligned values of a transaction go in its TransactionEvents
+    const transactionEvent = is21 ? transactionEvent21 : transactionEvent201;
+    this.vcp.send(
+      transactionEvent.request({
+        eventType: "Updated",
+        timestamp: timestamp.toISOString(),
+        seqNo: 0,
+        triggerReason: "MeterValueClock",
+        transactionInfo: {
+          transactionId: String(transaction.transactionId),
+        },
+        evse: {
+          id,
+          connectorId: transaction.connectorId,
+        },
+        meterValue: [toMeterValueType(meterValue)],
+      }),
+    );
+  }
+}
+
+// AlignedDataCtrlr variables of OCPP 2.x, backed by the charger config
+export const getAlignedDataVariable = (
+  vcp: VCP,
+  variable: string,
+): string | undefined => {
+  const settings = alignedDataSettings(vcp, OcppVersion.OCPP_2_0_1);
+  switch (variable) {
+    case "Interval":
+      return String(settings.intervalSec);
+    case "Measurands":
+      return settings.measurands.join(",");
+    case "SendDuringIdle":
+      return String(settings.sendDuringIdle);
+    default:
+      return undefined;
+  }
+};
+
+export const setAlignedDataVariable = (
+  vcp: VCP,
+  variable: string,
+  value: string,
+): "Accepted" | "Rejected" | "UnknownVariable" => {
+  switch (variable) {
+    case "Interval":
+      if (!/^\d+$/.test(value)) {
+        return "Rejected";
+      }
+      vcp.config.alignedDataInterval = Number.parseInt(value, 10);
+      break;
+    case "Measurands": {
+      const measurands = value.split(",").map((item) => item.trim());
+      if (measurands.some((measurand) => !MEASURANDS.includes(measurand))) {
+        return "Rejected";
+      }
+      vcp.config.alignedDataMeasurands = measurands;
+      break;
+    }
+    case "SendDuringIdle":
+      if (value !== "true" && value !== "false") {
+        return "Rejected";
+      }
+      vcp.config.alignedDataSendDuringIdle = value === "true";
+      break;
+    default:
+      return "UnknownVariable";
+  }
+  vcp.emit("configurationChanged", `AlignedDataCtrlr.${variable}`, value);
+  return "Accepted";
+};
@@ -0,0 +1,95 @@
+import { X509Certificate } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { logger } from "./logger";
+
+const CERTIFICATES_FILE = "certificates.json";
+
+// Root certificate types of 1.6 (security whitepaper), 2.0.1 and 2.1
+export type CertificateType =
+  | "CentralSystemRootCertificate"
+  | "CSMSRootCertificate"
+  | "ManufacturerRootCertificate"
+  | "V2GRootCertificate"
+  | "MORootCertificate"
+  | "OEMRootCertificate";
+
+export type InstallCertificateStatus = "Accepted" | "Rejected";
+
+// Installed certificates as PEM, by type
+type PersistedState = Partial<Record<CertificateType, string[]>>;
+
+// PEM encoded X.509 certificate, undefined when the string is not one
+export const parseCertificate = (pem: string): X509Certificate | undefined => {
+  try {
+    return new X509Certificate(pem);
+  } catch {
+    return undefined;
+  }
+};
+
+export const isValidNow = (certificate: X509Certificate): boolean => {
+  const now = Date.now();
+  return (
+    new Date(certificate.validFrom).getTime() <= now &&
+    now <= new Date(certificate.validTo).getTime()
+  );
+};
+
+// Root certificates installed by the CSMS with InstallCertificate
+export class CertificateStore {
+  private certificates: PersistedState = {};
+  private filePath?: string;
+
+  constructor(stateDir?: string) {
+    if (stateDir) {
+      this.filePath = path.join(stateDir, CERTIFICATES_FILE);
+      this.load();
+    }
+  }
+
+  // Rejects anything but a currently valid certificate, installing one that
+  // is already installed is accepted without storing it twice
+  install(type: CertificateType, pem: string): InstallCertificateStatus {
+    const certificate = parseCertificate(pem);
+    if (!certificate || !isValidNow(certificate)) {
+      return "Rejected";
+    }
+    const installed = this.certificates[type] ?? [];
+    const isInstalled = installed.some(
+      (other) =>
+        parseCertificate(other)?.fingerprint256 === certificate.fingerprint256,
+    );
+    if (!isInstalled) {
+      this.certificates[type] = [...installed, pem];
+      this.persist();
+    }
+    return "Accepted";
+  }
+
+  list(type: CertificateType): X509Certificate[] {
+    return (this.certificates[type] ?? [])
+      .map(parseCertificate)
+      .filter((certificate): certificate is X509Certificate => !!certificate);
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      this.certificates = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+    } catch (err) {
+      logger.error(`Failed to load certificates from ${this.filePath}`, err);
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.certificates, null, 2));
+  }
+}
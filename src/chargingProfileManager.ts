@@ -0,0 +1,709 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { logger } from "./logger";
+import { OcppVersion } from "./ocppVersion";
+import type { VCP } from "./vcp";
+
+const CHARGING_PROFILES_FILE = "charging-profiles.json";
+
+// SmartChargingCtrlr limits of OCPP 2.x, also the 1.6 configuration defaults
+const DEFAULT_MAX_STACK_LEVEL = 99;
+const DEFAULT_MAX_PERIODS = 24;
+const DEFAULT_MAX_PROFILES = 10;
+const DEFAULT_MAX_CURRENT = 32;
+const DEFAULT_NUMBER_OF_PHASES = 3;
+const NOMINAL_VOLTAGE = 230;
+
+// How far ahead the next limit change is looked for, and setTimeout firing
+// immediately for delays above ~24.8 days
+const LIMIT_LOOKAHEAD_SEC = 24 * 60 * 60;
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const RECURRENCY_MS = {
+  Daily: 24 * 60 * 60 * 1000,
+  Weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export type ChargingRateUnit = "A" | "W";
+
+export type ChargingProfilePurpose =
+  | "ChargePointMaxProfile" // 1.6
+  | "ChargingStationMaxProfile" // 2.x
+  | "ChargingStationExternalConstraints" // 2.x
+  | "TxDefaultProfile"
+  | "TxProfile"
+  | "PriorityCharging" // 2.1
+  | "LocalGeneration"; // 2.1
+
+export interface ChargingSchedulePeriod {
+  startPeriod: number; // Seconds from the start of the schedule
+  limit: number;
+  numberPhases?: number;
+}
+
+export interface ChargingSchedule {
+  startSchedule?: string;
+  duration?: number; // Seconds
+  chargingRateUnit: ChargingRateUnit;
+  chargingSchedulePeriod: ChargingSchedulePeriod[];
+  minChargingRate?: number;
+}
+
+// Charging profile of either OCPP version, on a connector (1.6) or EVSE (2.x)
+export interface ChargingProfile {
+  id: number;
+  connectorId: number; // 0 for the whole charger
+  stackLevel: number;
+  chargingProfilePurpose: ChargingProfilePurpose;
+  chargingProfileKind: "Absolute" | "Recurring" | "Relative";
+  recurrencyKind?: "Daily" | "Weekly";
+  validFrom?: string;
+  validTo?: string;
+  transactionId?: string | number;
+  chargingSchedule: ChargingSchedule;
+}
+
+// Rejections carry the OCPP 2.x reasonCode
+export interface SetChargingProfileResult {
+  status: "Accepted" | "Rejected";
+  reason?: string;
+}
+
+export interface ClearChargingProfileCriteria {
+  id?: number;
+  connectorId?: number;
+  chargingProfilePurpose?: ChargingProfilePurpose;
+  stackLevel?: number;
+}
+
+export interface CompositeSchedule {
+  connectorId: number;
+  scheduleStart: string;
+  duration: number;
+  chargingRateUnit: ChargingRateUnit;
+  chargingSchedulePeriod: ChargingSchedulePeriod[];
+}
+
+interface ChargingLimits {
+  maxStackLevel: number;
+  maxPeriods: number;
+  maxProfiles: number;
+  rateUnits: ChargingRateUnit[];
+}
+
+const MAX_PURPOSES: ChargingProfilePurpose[] = [
+  "ChargePointMaxProfile",
+  "ChargingStationMaxProfile",
+];
+
+const isMaxProfile = (profile: ChargingProfile) =>
+  MAX_PURPOSES.includes(profile.chargingProfilePurpose);
+
+// Profiles overlap unless one ends before the other starts
+const overlaps = (a: ChargingProfile, b: ChargingProfile): boolean => {
+  const start = (profile: ChargingProfile) =>
+    profile.validFrom
+      ? Date.parse(profile.validFrom)
+      : Number.NEGATIVE_INFINITY;
+  const end = (profile: ChargingProfile) =>
+    profile.validTo ? Date.parse(profile.validTo) : Number.POSITIVE_INFINITY;
+  return start(a) < end(b) && start(b) < end(a);
+};
+
+const scheduleError = (
+  profile: ChargingProfile,
+  limits: ChargingLimits,
+): string | undefined => {
+  const { chargingSchedule } = profile;
+  const periods = chargingSchedule.chargingSchedulePeriod;
+  if (!limits.rateUnits.includes(chargingSchedule.chargingRateUnit)) {
+    return "UnsupportedRateUnit";
+  }
+  if (
+    periods.length === 0 ||
+    periods.length > limits.maxPeriods ||
+    periods[0].startPeriod !== 0 ||
+    periods.some(
+      (period, i) =>
+        period.limit < 0 ||
+        (i > 0 && period.startPeriod <= periods[i - 1].startPeriod),
+    )
+  ) {
+    return "InvalidSchedule";
+  }
+  if (
+    profile.chargingProfileKind === "Recurring" &&
+    (!profile.recurrencyKind || !chargingSchedule.startSchedule)
+  ) {
+    return "InvalidSchedule";
+  }
+  return undefined;
+};
+
+// Charging profiles installed with SetChargingProfile, stacked per purpose
+// and combined into the composite schedule that limits charging
+export class ChargingProfileManager {
+  private profiles: ChargingProfile[] = [];
+  private filePath?: string;
+  // Offered current per connector in A once it differs from maxCurrent
+  private offered: Map<number, number> = new Map();
+  // Connectors suspended because their limit dropped to zero
+  private suspended: Set<number> = new Set();
+  private limitTimer?: NodeJS.Timeout;
+  // Limits are applied from start() on, once the CSMS accepted the charger
+  private isStarted = false;
+
+  constructor(
+    private vcp: VCP,
+    private ocppVersion: OcppVersion,
+    stateDir?: string,
+  ) {
+    if (stateDir) {
+      this.filePath = path.join(stateDir, CHARGING_PROFILES_FILE);
+      this.load();
+    }
+    vcp.on("transactionStarted", () => this.applyLimits());
+    // TxProfiles end with their transaction
+    vcp.on("transactionStopped", (transaction) => {
+      const before = this.profiles.length;
+      this.profiles = this.profiles.filter(
+        (profile) =>
+          profile.chargingProfilePurpose !== "TxProfile" ||
+          String(profile.transactionId) !== String(transaction.transactionId),
+      );
+      if (this.profiles.length !== before) {
+        this.persist();
+      }
+      this.suspended.delete(transaction.evseId ?? transaction.connectorId);
+      this.applyLimits();
+    });
+  }
+
+  list(): ChargingProfile[] {
+    return [...this.profiles];
+  }
+
+  // Installs a profile sent by the CSMS. ChargingStationExternalConstraints
+  // are only installed by a local energy manager, with external set.
+  set(profile: ChargingProfile, external = false): SetChargingProfileResult {
+    const reason = this.rejection(profile, external);
+    if (reason) {
+      logger.warn(`Rejected charging profile ${profile.id}: ${reason}`);
+      return { status: "Rejected", reason };
+    }
+    const transaction =
+      profile.chargingProfilePurpose === "TxProfile"
+        ? this.vcp.transactionManager.getActiveTransaction(profile.connectorId)
+        : undefined;
+    const installed: ChargingProfile = {
+      ...profile,
+      transactionId: transaction?.transactionId ?? profile.transactionId,
+    };
+    // A profile replaces the one with its id and, on 1.6, the one with its
+    // stack level and purpose
+    this.profiles = this.profiles
+      .filter(
+        (existing) =>
+          existing.id !== profile.id &&
+          !(
+            this.ocppVersion === OcppVersion.OCPP_1_6 &&
+            this.sameStack(existing, installed)
+          ),
+      )
+      .concat(installed);
+    this.persist();
+    this.applyLimits();
+    return { status: "Accepted" };
+  }
+
+  // Removes the profiles matching all given criteria, returning how many
+  clear(criteria: ClearChargingProfileCriteria): number {
+    const matches = (profile: ChargingProfile) =>
+      profile.chargingProfilePurpose !== "ChargingStationExternalConstraints" &&
+      (criteria.id === undefined || profile.id === criteria.id) &&
+      (criteria.connectorId === undefined ||
+        profile.connectorId === criteria.connectorId) &&
+      (criteria.chargingProfilePurpose === undefined ||
+        profile.chargingProfilePurpose === criteria.chargingProfilePurpose) &&
+      (criteria.stackLevel === undefined ||
+        profile.stackLevel === criteria.stackLevel);
+    const before = this.profiles.length;
+    this.profiles = this.profiles.filter((profile) => !matches(profile));
+    const cleared = before - this.profiles.length;
+    if (cleared > 0) {
+      this.persist();
+      this.applyLimits();
+    }
+    return cleared;
+  }
+
+  // Current offered per phase on a connector (1.6) or EVSE (2.x) at a time:
+  // its composite limit, never more than the charger's maxCurrent
+  offeredCurrent(connectorId: number, now = new Date()): number {
+    const maxCurrent = this.vcp.config.maxCurrent ?? DEFAULT_MAX_CURRENT;
+    const schedule = this.getCompositeSchedule(connectorId, 1, "A", now);
+    const limit = schedule?.chargingSchedulePeriod[0]?.limit ?? maxCurrent;
+    return Math.min(limit, maxCurrent);
+  }
+
+  // Applies the limits of now and follows their schedules
+  start() {
+    this.isStarted = true;
+    this.applyLimits();
+  }
+
+  stop() {
+    this.isStarted = false;
+    clearTimeout(this.limitTimer);
+    this.limitTimer = undefined;
+  }
+
+  // Composite schedule of a connector (1.6) or EVSE (2.x) from now on: the
+  // lowest of the charger maximum, external constraints and the transaction
+  // (or default) profile, each taken from its highest valid stack level
+  getCompositeSchedule(
+    connectorId: number,
+    durationSec: number,
+    chargingRateUnit?: ChargingRateUnit,
+    now = new Date(),
+  ): CompositeSchedule | undefined {
+    if (
+      connectorId < 0 ||
+      connectorId > (this.vcp.config.numberOfConnectors ?? 1)
+    ) {
+      return undefined;
+    }
+    const start = Math.floor(now.getTime() / 1000) * 1000;
+    const end = start + durationSec * 1000;
+    const transaction =
+      connectorId > 0
+        ? this.vcp.transactionManager.getActiveTransaction(connectorId)
+        : undefined;
+    // Relative schedules start with the transaction, or now without one
+    const relativeStart = transaction
+      ? Math.floor(transaction.startedAt.getTime() / 1000) * 1000
+      : start;
+
+    const stacks = this.stacks(connectorId, transaction?.transactionId);
+    const profiles = stacks.reduce((all, stack) => all.concat(stack), []);
+    const unit =
+      chargingRateUnit ?? profiles[0]?.chargingSchedule.chargingRateUnit ?? "A";
+    const times = new Set([start]);
+    for (const profile of profiles) {
+      for (const time of this.changeTimes(profile, start, end, relativeStart)) {
+        times.add(time);
+      }
+    }
+
+    const chargingSchedulePeriod: ChargingSchedulePeriod[] = [];
+    for (const time of Array.from(times).sort((a, b) => a - b)) {
+      const period = this.limitAt(stacks, time, unit, relativeStart);
+      const previous =
+        chargingSchedulePeriod[chargingSchedulePeriod.length - 1];
+      if (
+        previous &&
+        previous.limit === period.limit &&
+        previous.numberPhases === period.numberPhases
+      ) {
+        continue;
+      }
+      chargingSchedulePeriod.push({
+        startPeriod: Math.round((time - start) / 1000),
+        ...period,
+      });
+    }
+    return {
+      connectorId,
+      scheduleStart: new Date(start).toISOString(),
+      duration: durationSec,
+      chargingRateUnit: unit,
+      chargingSchedulePeriod,
+    };
+  }
+
+  // Applies the limits of now to the connectors, emitting chargingLimitChanged
+  // for those that changed, and waits for the next change of any of them
+  private applyLimits() {
+    clearTimeout(this.limitTimer);
+    this.limitTimer = undefined;
+    if (!this.isStarted) {
+      return;
+    }
+    const now = new Date();
+    let next = Number.POSITIVE_INFINITY;
+    const maxCurrent = this.vcp.config.maxCurrent ?? DEFAULT_MAX_CURRENT;
+    for (let id = 1; id <= (this.vcp.config.numberOfConnectors ?? 1); id++) {
+      const limitA = this.offeredCurrent(id, now);
+      this.vcp.transactionManager.setOfferedCurrent(id, limitA);
+      if (limitA !== (this.offered.get(id) ?? maxCurrent)) {
+        logger.info(`Charging limit of connector ${id} is now ${limitA} A`);
+        this.offered.set(id, limitA);
+        this.vcp.emit("chargingLimitChanged", id, limitA);
+      }
+      this.suspendAtZero(id, limitA);
+      const schedule = this.getCompositeSchedule(
+        id,
+        LIMIT_LOOKAHEAD_SEC,
+        "A",
+        now,
+      );
+      const change = schedule?.chargingSchedulePeriod[1];
+      if (schedule && change) {
+        next = Math.min(
+          next,
+          Date.parse(schedule.scheduleStart) + change.startPeriod * 1000,
+        );
+      }
+    }
+    if (this.profiles.length === 0) {
+      return;
+    }
+    // Without a change ahead, look again once the lookahead passed
+    const delayMs = Number.isFinite(next)
+      ? next - now.getTime()
+      : LIMIT_LOOKAHEAD_SEC * 1000;
+    this.limitTimer = setTimeout(
+      () => this.applyLimits(),
+      Math.min(Math.max(delayMs, 0), MAX_TIMER_DELAY_MS),
+    );
+  }
+
+  // A transaction is suspended by the EVSE (SuspendedEVSE) while its limit is
+  // zero, and resumes charging once it is raised
+  private suspendAtZero(connectorId: number, limitA: number) {
+    if (!this.vcp.transactionManager.getActiveTransaction(connectorId)) {
+      return;
+    }
+    if (limitA <= 0 && !this.suspended.has(connectorId)) {
+      if (this.vcp.connectors.handle(connectorId, "EVSESuspended")) {
+        this.suspended.add(connectorId);
+      }
+    } else if (limitA > 0 && this.suspended.has(connectorId)) {
+      this.suspended.delete(connectorId);
+      this.vcp.connectors.handle(connectorId, "ChargingResumed");
+    }
+  }
+
+  // OCPP 2.x reasonCode of a profile that cannot be installed
+  private rejection(
+    profile: ChargingProfile,
+    external: boolean,
+  ): string | undefined {
+    const limits = this.limits();
+    const { connectorId, chargingProfilePurpose } = profile;
+    if (
+      connectorId < 0 ||
+      connectorId > (this.vcp.config.numberOfConnectors ?? 1)
+    ) {
+      return "UnknownEvse";
+    }
+    if (
+      chargingProfilePurpose === "ChargingStationExternalConstraints" &&
+      !external
+    ) {
+      return "InvalidProfile";
+    }
+    if (
+      (isMaxProfile(profile) ||
+        chargingProfilePurpose === "ChargingStationExternalConstraints") &&
+      connectorId !== 0
+    ) {
+      return "InvalidProfile";
+    }
+    if (chargingProfilePurpose === "TxProfile") {
+      const transaction =
+        connectorId > 0
+          ? this.vcp.transactionManager.getActiveTransaction(connectorId)
+          : undefined;
+      if (
+        !transaction ||
+        (profile.transactionId != null &&
+          String(profile.transactionId) !== String(transaction.transactionId))
+      ) {
+        return "TxNotFound";
+      }
+    }
+    if (profile.stackLevel > limits.maxStackLevel) {
+      return "InvalidStackLevel";
+    }
+    const error = scheduleError(profile, limits);
+    if (error) {
+      return error;
+    }
+    if (
+      this.ocppVersion !== OcppVersion.OCPP_1_6 &&
+      this.profiles.some(
+        (existing) =>
+          existing.id !== profile.id &&
+          this.sameStack(existing, profile) &&
+          overlaps(existing, profile),
+      )
+    ) {
+      return "DuplicateProfile";
+    }
+    const replaced = this.profiles.some(
+      (existing) =>
+        existing.id === profile.id ||
+        (this.ocppVersion === OcppVersion.OCPP_1_6 &&
+          this.sameStack(existing, profile)),
+    );
+    if (!replaced && this.profiles.length >= limits.maxProfiles) {
+      return "NoCapacity";
+    }
+    return undefined;
+  }
+
+  private sameStack(a: ChargingProfile, b: ChargingProfile): boolean {
+    return (
+      a.connectorId === b.connectorId &&
+      a.stackLevel === b.stackLevel &&
+      a.chargingProfilePurpose === b.chargingProfilePurpose &&
+      (a.chargingProfilePurpose !== "TxProfile" ||
+        String(a.transactionId) === String(b.transactionId))
+    );
+  }
+
+  // Profiles limiting a connector, one list per purpose, highest stack first
+  private stacks(
+    connectorId: number,
+    transactionId?: string | number,
+  ): ChargingProfile[][] {
+    const byStackLevel = (profiles: ChargingProfile[]) =>
+      profiles.sort((a, b) => b.stackLevel - a.stackLevel);
+    const stationWide = this.profiles.filter(
+      (profile) => profile.connectorId === 0,
+    );
+    const stacks = [
+      byStackLevel(stationWide.filter(isMaxProfile)),
+      byStackLevel(
+        stationWide.filter(
+          (profile) =>
+            profile.chargingProfilePurpose ===
+            "ChargingStationExternalConstraints",
+        ),
+      ),
+    ];
+    if (connectorId === 0) {
+      return stacks;
+    }
+    const txProfiles = this.profiles.filter(
+      (profile) =>
+        profile.chargingProfilePurpose === "TxProfile" &&
+        profile.connectorId === connectorId &&
+        transactionId !== undefined &&
+        String(profile.transactionId) === String(transactionId),
+    );
+    // A TxDefaultProfile of the connector goes before those of connector 0
+    const txDefaultProfiles = this.profiles.filter(
+      (profile) =>
+        profile.chargingProfilePurpose === "TxDefaultProfile" &&
+        (profile.connectorId === connectorId || profile.connectorId === 0),
+    );
+    return stacks.concat([
+      byStackLevel(txProfiles),
+      txDefaultProfiles.sort(
+        (a, b) =>
+          Number(b.connectorId === connectorId) -
+            Number(a.connectorId === connectorId) ||
+          b.stackLevel - a.stackLevel,
+      ),
+    ]);
+  }
+
+  // Limit at a time: the lowest of the maximum and external constraints,
+  // and the TxProfile or else the TxDefaultProfile
+  private limitAt(
+    stacks: ChargingProfile[][],
+    time: number,
+    unit: ChargingRateUnit,
+    relativeStart: number,
+  ): Omit<ChargingSchedulePeriod, "startPeriod"> {
+    const [maxStack, externalStack, txStack, txDefaultStack] = stacks;
+    const active = (stack: ChargingProfile[] = []) => {
+      for (const profile of stack) {
+        const period = this.periodAt(profile, time, relativeStart);
+        if (period) {
+          const { limit, numberPhases } = period;
+          return this.inUnit(
+            { limit, numberPhases },
+            profile.chargingSchedule.chargingRateUnit,
+            unit,
+          );
+        }
+      }
+      return undefined;
+    };
+    const limits = [
+      active(maxStack),
+      active(externalStack),
+      active(txStack) ?? active(txDefaultStack),
+    ].filter(
+      (period): period is Omit<ChargingSchedulePeriod, "startPeriod"> =>
+        period !== undefined,
+    );
+    if (limits.length === 0) {
+      return this.inUnit(
+        { limit: this.vcp.config.maxCurrent ?? DEFAULT_MAX_CURRENT },
+        "A",
+        unit,
+      );
+    }
+    return limits.reduce((lowest, period) =>
+      period.limit < lowest.limit ? period : lowest,
+    );
+  }
+
+  private inUnit(
+    period: Omit<ChargingSchedulePeriod, "startPeriod">,
+    from: ChargingRateUnit,
+    to: ChargingRateUnit,
+  ): Omit<ChargingSchedulePeriod, "startPeriod"> {
+    if (from === to) {
+      return period;
+    }
+    const phases =
+      period.numberPhases ??
+      this.vcp.config.numberOfPhases ??
+      DEFAULT_NUMBER_OF_PHASES;
+    const limit =
+      to === "W"
+        ? period.limit * NOMINAL_VOLTAGE * phases
+        : period.limit / (NOMINAL_VOLTAGE * phases);
+    return { ...period, limit: Math.round(limit * 10) / 10 };
+  }
+
+  // Start of the schedule (or of its current recurrence) at a time
+  private scheduleStart(
+    profile: ChargingProfile,
+    time: number,
+    relativeStart: number,
+  ): number {
+    const { startSchedule } = profile.chargingSchedule;
+    switch (profile.chargingProfileKind) {
+      case "Relative":
+        return relativeStart;
+      case "Recurring": {
+        const base = Date.parse(startSchedule ?? "");
+        const recurrency = RECURRENCY_MS[profile.recurrencyKind ?? "Daily"];
+        return base + Math.floor((time - base) / recurrency) * recurrency;
+      }
+      default:
+        return startSchedule
+          ? Date.parse(startSchedule)
+          : profile.validFrom
+            ? Date.parse(profile.validFrom)
+            : relativeStart;
+    }
+  }
+
+  private periodAt(
+    profile: ChargingProfile,
+    time: number,
+    relativeStart: number,
+  ): ChargingSchedulePeriod | undefined {
+    if (
+      (profile.validFrom && time < Date.parse(profile.validFrom)) ||
+      (profile.validTo && time >= Date.parse(profile.validTo))
+    ) {
+      return undefined;
+    }
+    const { duration, chargingSchedulePeriod } = profile.chargingSchedule;
+    const offsetSec =
+      (time - this.scheduleStart(profile, time, relativeStart)) / 1000;
+    if (offsetSec < 0 || (duration != null && offsetSec >= duration)) {
+      return undefined;
+    }
+    return chargingSchedulePeriod
+      .filter((period) => period.startPeriod <= offsetSec)
+      .pop();
+  }
+
+  // Times between start and end at which a profile's limit may change
+  private changeTimes(
+    profile: ChargingProfile,
+    start: number,
+    end: number,
+    relativeStart: number,
+  ): number[] {
+    const times: number[] = [];
+    if (profile.validFrom) {
+      times.push(Date.parse(profile.validFrom));
+    }
+    if (profile.validTo) {
+      times.push(Date.parse(profile.validTo));
+    }
+    const scheduleStarts = [this.scheduleStart(profile, start, relativeStart)];
+    if (profile.chargingProfileKind === "Recurring") {
+      const recurrency = RECURRENCY_MS[profile.recurrencyKind ?? "Daily"];
+      for (
+        let recurrence = scheduleStarts[0] + recurrency;
+        recurrence < end;
+        recurrence += recurrency
+      ) {
+        scheduleStarts.push(recurrence);
+      }
+    }
+    const { duration, chargingSchedulePeriod } = profile.chargingSchedule;
+    for (const scheduleStart of scheduleStarts) {
+      for (const period of chargingSchedulePeriod) {
+        times.push(scheduleStart + period.startPeriod * 1000);
+      }
+      if (duration != null) {
+        times.push(scheduleStart + duration * 1000);
+      }
+    }
+    return times.filter((time) => time > start && time < end);
+  }
+
+  private limits(): ChargingLimits {
+    if (this.ocppVersion !== OcppVersion.OCPP_1_6) {
+      return {
+        maxStackLevel: DEFAULT_MAX_STACK_LEVEL,
+        maxPeriods: DEFAULT_MAX_PERIODS,
+        maxProfiles: DEFAULT_MAX_PROFILES,
+        rateUnits: ["A", "W"],
+      };
+    }
+    const { configuration } = this.vcp;
+    return {
+      maxStackLevel:
+        configuration.getInteger("ChargeProfileMaxStackLevel") ??
+        DEFAULT_MAX_STACK_LEVEL,
+      maxPeriods:
+        configuration.getInteger("ChargingScheduleMaxPeriods") ??
+        DEFAULT_MAX_PERIODS,
+      maxProfiles:
+        configuration.getInteger("MaxChargingProfilesInstalled") ??
+        DEFAULT_MAX_PROFILES,
+      rateUnits: configuration
+        .getList("ChargingScheduleAllowedChargingRateUnit")
+        .map((unit): ChargingRateUnit => (unit === "Power" ? "W" : "A")),
+    };
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      // TxProfiles ended with the transactions of the previous run
+      this.profiles = (
+        JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as ChargingProfile[]
+      ).filter((profile) => profile.chargingProfilePurpose !== "TxProfile");
+    } catch (err) {
+      logger.error(
+        `Failed to load charging profiles from ${this.filePath}`,
+        err,
+      );
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.profiles, null, 2));
+  }
+}
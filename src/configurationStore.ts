@@ -0,0 +1,503 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { logger } from "./logger";
+import type { SecurityProfile } from "./securityProfile";
+import type { ChargePointConfig } from "./vcp";
+
+const CONFIGURATION_FILE = "configuration.json";
+
+export const MEASURANDS = [
+  "Current.Export",
+  "Current.Import",
+  "Current.Offered",
+  "Energy.Active.Export.Register",
+  "Energy.Active.Import.Register",
+  "Energy.Reactive.Export.Register",
+  "Energy.Reactive.Import.Register",
+  "Energy.Active.Export.Interval",
+  "Energy.Active.Import.Interval",
+  "Energy.Reactive.Export.Interval",
+  "Energy.Reactive.Import.Interval",
+  "Frequency",
+  "Power.Active.Export",
+  "Power.Active.Import",
+  "Power.Factor",
+  "Power.Offered",
+  "Power.Reactive.Export",
+  "Power.Reactive.Import",
+  "RPM",
+  "SoC",
+  "Temperature",
+  "Voltage",
+];
+
+export type ChangeConfigurationStatus =
+  | "Accepted"
+  | "Rejected"
+  | "RebootRequired"
+  | "NotSupported";
+
+export interface ConfigurationEntry {
+  key: string;
+  readonly: boolean;
+  value: string;
+}
+
+interface ConfigurationKey extends ConfigurationEntry {
+  // csl = comma separated list, optionally restricted to allowedValues
+  type: "boolean" | "integer" | "string" | "csl";
+  allowedValues?: string[];
+  maxLengthKey?: string; // Key holding the maximum number of list items
+  rebootRequired?: boolean; // Changed values are stored but only apply after a reboot
+}
+
+// OCPP 1.6 configuration keys with their initial values from the charger config
+const buildConfigurationKeys = (
+  config: ChargePointConfig,
+  securityProfile: SecurityProfile,
+): ConfigurationKey[] => [
+  // Core Profile
+  {
+    key: "SupportedFeatureProfiles",
+    readonly: true,
+    type: "csl",
+    value:
+      "Core,FirmwareManagement,LocalAuthListManagement,Reservation,SmartCharging,RemoteTrigger",
+  },
+  {
+    key: "NumberOfConnectors",
+    readonly: true,
+    type: "integer",
+    value: String(config.numberOfConnectors ?? 1),
+  },
+  {
+    key: "HeartbeatInterval",
+    readonly: false,
+    type: "integer",
+    value: String(config.heartbeatInterval ?? 300),
+  },
+  {
+    key: "ConnectionTimeOut",
+    readonly: false,
+    type: "integer",
+    value: String(config.connectionTimeOut ?? 60),
+  },
+  {
+    key: "GetConfigurationMaxKeys",
+    readonly: true,
+    type: "integer",
+    value: "99",
+  },
+  {
+    key: "MeterValueSampleInterval",
+    readonly: false,
+    type: "integer",
+    value: String(config.meterValueSampleInterval ?? 15),
+  },
+  {
+    key: "MeterValuesSampledData",
+    readonly: false,
+    type: "csl",
+    allowedValues: MEASURANDS,
+    maxLengthKey: "MeterValuesSampledDataMaxLength",
+    value:
+      "Energy.Active.Import.Register,Power.Active.Import,Current.Import,Voltage",
+  },
+  {
+    key: "MeterValuesSampledDataMaxLength",
+    readonly: true,
+    type: "integer",
+    value: "10",
+  },
+  {
+    key: "MeterValuesAlignedData",
+    readonly: false,
+    type: "csl",
+    allowedValues: MEASURANDS,
+    maxLengthKey: "MeterValuesAlignedDataMaxLength",
+    value: "Energy.Active.Import.Register",
+  },
+  {
+    key: "MeterValuesAlignedDataMaxLength",
+    readonly: true,
+    type: "integer",
+    value: "10",
+  },
+  {
+    key: "ClockAlignedDataInterval",
+    readonly: false,
+    type: "integer",
+    value: String(config.alignedDataInterval ?? 0),
+  },
+  // Authorization
+  {
+    key: "AuthorizeRemoteTxRequests",
+    readonly: false,
+    type: "boolean",
+    value: String(config.authorizeRemoteTxRequests ?? false),
+  },
+  {
+    key: "LocalAuthorizeOffline",
+    readonly: false,
+    type: "boolean",
+    value: String(config.localAuthorizeOffline ?? true),
+  },
+  {
+    key: "LocalPreAuthorize",
+    readonly: false,
+    type: "boolean",
+    value: String(config.localPreAuthorize ?? false),
+  },
+  {
+    key: "AuthorizationCacheEnabled",
+    readonly: false,
+    type: "boolean",
+    value: String(config.authCacheEnabled ?? true),
+  },
+  // Transactions
+  {
+    key: "StopTransactionOnEVSideDisconnect",
+    readonly: false,
+    type: "boolean",
+    value: "true",
+  },
+  {
+    key: "StopTransactionOnInvalidId",
+    readonly: false,
+    type: "boolean",
+    value: "true",
+  },
+  {
+    key: "UnlockConnectorOnEVSideDisconnect",
+    readonly: false,
+    type: "boolean",
+    value: "true",
+  },
+  {
+    key: "StopTxnSampledData",
+    readonly: false,
+    type: "csl",
+    allowedValues: MEASURANDS,
+    maxLengthKey: "StopTxnSampledDataMaxLength",
+    value: "Energy.Active.Import.Register",
+  },
+  {
+    key: "StopTxnSampledDataMaxLength",
+    readonly: true,
+    type: "integer",
+    value: "10",
+  },
+  {
+    key: "TransactionMessageAttempts",
+    readonly: false,
+    type: "integer",
+    value: String(config.transactionMessageAttempts ?? 3),
+  },
+  {
+    key: "TransactionMessageRetryInterval",
+    readonly: false,
+    type: "integer",
+    value: String(config.transactionMessageRetryInterval ?? 10),
+  },
+  // Smart Charging
+  {
+    key: "ChargeProfileMaxStackLevel",
+    readonly: true,
+    type: "integer",
+    value: "99",
+  },
+  {
+    key: "ChargingScheduleAllowedChargingRateUnit",
+    readonly: true,
+    type: "csl",
+    value: "Current,Power",
+  },
+  {
+    key: "ChargingScheduleMaxPeriods",
+    readonly: true,
+    type: "integer",
+    value: "24",
+  },
+  {
+    key: "MaxChargingProfilesInstalled",
+    readonly: true,
+    type: "integer",
+    value: "10",
+  },
+  // Local Auth List
+  {
+    key: "LocalAuthListEnabled",
+    readonly: false,
+    type: "boolean",
+    value: String(config.localAuthListEnabled ?? true),
+  },
+  {
+    key: "LocalAuthListMaxLength",
+    readonly: true,
+    type: "integer",
+    value: "100",
+  },
+  {
+    key: "SendLocalListMaxLength",
+    readonly: true,
+    type: "integer",
+    value: "100",
+  },
+  // Reservation
+  {
+    key: "ReserveConnectorZeroSupported",
+    readonly: true,
+    type: "boolean",
+    value: "true",
+  },
+  // Connector
+  {
+    key: "ConnectorPhaseRotation",
+    readonly: false,
+    type: "csl",
+    rebootRequired: true, // Wiring is only read when the charger starts
+    value: Array.from(
+      { length: config.numberOfConnectors ?? 1 },
+      (_, i) => `${i}.RST`,
+    ).join(","),
+  },
+  {
+    key: "ConnectorPhaseRotationMaxLength",
+    readonly: true,
+    type: "integer",
+    value: String((config.numberOfConnectors ?? 1) + 1),
+  },
+  // Security
+  {
+    key: "SecurityProfile",
+    readonly: true,
+    type: "integer",
+    value: String(securityProfile),
+  },
+  // Charger identity (from config)
+  {
+    key: "ChargePointVendor",
+    readonly: true,
+    type: "string",
+    value: config.chargePointVendor ?? "Unknown",
+  },
+  {
+    key: "ChargePointModel",
+    readonly: true,
+    type: "string",
+    value: config.chargePointModel ?? "Unknown",
+  },
+  {
+    key: "ChargePointSerialNumber",
+    readonly: true,
+    type: "string",
+    value: config.chargePointSerialNumber ?? "Unknown",
+  },
+  {
+    key: "FirmwareVersion",
+    readonly: true,
+    type: "string",
+    value: config.firmwareVersion ?? "1.0.0",
+  },
+  {
+    key: "MeterType",
+    readonly: true,
+    type: "string",
+    value: config.meterType ?? "Unknown",
+  },
+  {
+    key: "MeterSerialNumber",
+    readonly: true,
+    type: "string",
+    value: config.meterSerialNumber ?? "Unknown",
+  },
+];
+
+// Returns the value as it should be stored, or undefined if it is invalid
+const normalizeValue = (
+  configurationKey: ConfigurationKey,
+  value: string,
+): string | undefined => {
+  switch (configurationKey.type) {
+    case "boolean": {
+      const lowerCase = value.trim().toLowerCase();
+      return lowerCase === "true" || lowerCase === "false"
+        ? lowerCase
+        : undefined;
+    }
+    case "integer":
+      return /^\d+$/.test(value.trim())
+        ? String(Number.parseInt(value, 10))
+        : undefined;
+    case "csl": {
+      const items = value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item !== "");
+      const { allowedValues } = configurationKey;
+      if (
+        allowedValues &&
+        items.some((item) => !allowedValues.includes(item))
+      ) {
+        return undefined;
+      }
+      return items.join(",");
+    }
+    default:
+      return value;
+  }
+};
+
+// OCPP 1.6 configuration keys of a charger, changed with ChangeConfiguration.
+// Changed values are persisted to the state directory and survive restarts.
+export class ConfigurationStore {
+  private keys: Map<string, ConfigurationKey>;
+  // Values that differ from the charger config, the only ones persisted
+  private changedValues: Record<string, string> = {};
+  // Changed values of rebootRequired keys, applied by applyPending()
+  private pendingValues: Record<string, string> = {};
+  private filePath?: string;
+
+  constructor(
+    config: ChargePointConfig,
+    securityProfile: SecurityProfile,
+    stateDir?: string,
+  ) {
+    this.keys = new Map(
+      buildConfigurationKeys(config, securityProfile).map((entry) => [
+        entry.key,
+        entry,
+      ]),
+    );
+    if (stateDir) {
+      this.filePath = path.join(stateDir, CONFIGURATION_FILE);
+      this.load();
+    }
+  }
+
+  get(key: string): string | undefined {
+    return this.keys.get(key)?.value;
+  }
+
+  getInteger(key: string): number | undefined {
+    const value = this.get(key);
+    return value === undefined ? undefined : Number.parseInt(value, 10);
+  }
+
+  getBoolean(key: string): boolean | undefined {
+    const value = this.get(key);
+    return value === undefined ? undefined : value === "true";
+  }
+
+  getList(key: string): string[] {
+    const value = this.get(key);
+    return value ? value.split(",") : [];
+  }
+
+  list(): ConfigurationEntry[] {
+    return Array.from(this.keys.values()).map(({ key, readonly, value }) => ({
+      key,
+      readonly,
+      value,
+    }));
+  }
+
+  change(key: string, value: string): ChangeConfigurationStatus {
+    const configurationKey = this.keys.get(key);
+    if (!configurationKey) {
+      return "NotSupported";
+    }
+    if (configurationKey.readonly) {
+      return "Rejected";
+    }
+    const normalized = normalizeValue(configurationKey, value);
+    if (
+      normalized === undefined ||
+      this.exceedsMaxLength(configurationKey, normalized)
+    ) {
+      return "Rejected";
+    }
+    if (configurationKey.rebootRequired) {
+      // Persisted right away, so a restart applies it as well
+      this.pendingValues[key] = normalized;
+      this.changedValues[key] = normalized;
+      this.persist();
+      return "RebootRequired";
+    }
+    this.update(configurationKey, normalized);
+    return "Accepted";
+  }
+
+  // Applies the values staged by change() when the charger reboots, returns
+  // the keys whose value changed
+  applyPending(): string[] {
+    const applied: string[] = [];
+    for (const [key, value] of Object.entries(this.pendingValues)) {
+      const configurationKey = this.keys.get(key);
+      if (configurationKey && configurationKey.value !== value) {
+        configurationKey.value = value;
+        applied.push(key);
+      }
+    }
+    this.pendingValues = {};
+    return applied;
+  }
+
+  // Updates a value reported by the CSMS outside of ChangeConfiguration,
+  // e.g. the heartbeat interval of a BootNotification response
+  set(key: string, value: string) {
+    const configurationKey = this.keys.get(key);
+    if (configurationKey) {
+      this.update(configurationKey, value);
+    }
+  }
+
+  private exceedsMaxLength(
+    configurationKey: ConfigurationKey,
+    value: string,
+  ): boolean {
+    if (!configurationKey.maxLengthKey) {
+      return false;
+    }
+    const maxLength = this.getInteger(configurationKey.maxLengthKey);
+    return maxLength !== undefined && value.split(",").length > maxLength;
+  }
+
+  private update(configurationKey: ConfigurationKey, value: string) {
+    configurationKey.value = value;
+    this.changedValues[configurationKey.key] = value;
+    this.persist();
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const values: Record<string, string> = JSON.parse(
+        fs.readFileSync(this.filePath, "utf-8"),
+      );
+      for (const [key, value] of Object.entries(values)) {
+        const configurationKey = this.keys.get(key);
+        if (configurationKey && !configurationKey.readonly) {
+          configurationKey.value = value;
+          this.changedValues[key] = value;
+        }
+      }
+    } catch (err) {
+      logger.error(`Failed to load configuration from ${this.filePath}`, err);
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify(this.changedValues, null, 2),
+    );
+  }
+}
@@ -0,0 +1,418 @@
+import type { z } from "zod";
+
+import { logger } from "./logger";
+import { OcppVersion } from "./ocppVersion";
+import type { ChargePointErrorCodeSchema } from "./v16/messages/_common";
+import { statusNotificationOcppMessage } from "./v16/messages/statusNotification";
+import { statusNotificationOcppOutgoing as statusNotification21 } from "./v21/messages/statusNotification";
+import { statusNotificationOcppOutgoing as statusNotification201 } from "./v201/messages/statusNotification";
+import type { VCP } from "./vcp";
+
+export type ChargePointErrorCode = z.infer<typeof ChargePointErrorCodeSchema>;
+
+// OCPP 1.6 ChargePointStatus, also the phases of a 2.x connector
+export type ChargePointStatus =
+  | "Available"
+  | "Preparing"
+  | "Charging"
+  | "SuspendedEV"
+  | "SuspendedEVSE"
+  | "Finishing"
+  | "Reserved"
+  | "Unavailable"
+  | "Faulted";
+
+// OCPP 2.x ConnectorStatusEnumType
+export type ConnectorStatus =
+  | "Available"
+  | "Occupied"
+  | "Reserved"
+  | "Unavailable"
+  | "Faulted";
+
+export type ConnectorEvent =
+  | "CablePlugged"
+  | "CableUnplugged"
+  | "Authorized"
+  | "TransactionStarted"
+  | "EVSuspended"
+  | "EVSESuspended"
+  | "ChargingResumed"
+  | "TransactionStopped"
+  | "Reserved"
+  | "ReservationEnded"
+  | "Faulted"
+  | "FaultCleared"
+  | "Inoperative"
+  | "Operative";
+
+interface ConnectorState {
+  status: ChargePointStatus;
+  errorCode: ChargePointErrorCode;
+  plugged: boolean;
+  inTransaction: boolean; // Charged or suspended since the last Finishing/Available
+  beforeFault?: ChargePointStatus; // Status restored when the fault clears
+}
+
+// Valid 1.6 status transitions (OCPP 1.6 section 4.9)
+const TRANSITIONS: Record<ChargePointStatus, ChargePointStatus[]> = {
+  Available: [
+    "Preparing",
+    "Charging",
+    "SuspendedEV",
+    "SuspendedEVSE",
+    "Reserved",
+    "Unavailable",
+    "Faulted",
+  ],
+  Preparing: [
+    "Available",
+    "Charging",
+    "SuspendedEV",
+    "SuspendedEVSE",
+    "Finishing",
+    "Faulted",
+  ],
+  Charging: [
+    "Available",
+    "SuspendedEV",
+    "SuspendedEVSE",
+    "Finishing",
+    "Unavailable",
+    "Faulted",
+  ],
+  SuspendedEV: [
+    "Available",
+    "Charging",
+    "SuspendedEVSE",
+    "Finishing",
+    "Unavailable",
+    "Faulted",
+  ],
+  SuspendedEVSE: [
+    "Available",
+    "Charging",
+    "SuspendedEV",
+    "Finishing",
+    "Unavailable",
+    "Faulted",
+  ],
+  Finishing: ["Available", "Preparing", "Unavailable", "Faulted"],
+  Reserved: ["Available", "Preparing", "Unavailable", "Faulted"],
+  Unavailable: [
+    "Available",
+    "Preparing",
+    "Charging",
+    "SuspendedEV",
+    "SuspendedEVSE",
+    "Faulted",
+  ],
+  Faulted: [
+    "Available",
+    "Preparing",
+    "Charging",
+    "SuspendedEV",
+    "SuspendedEVSE",
+    "Finishing",
+    "Reserved",
+    "Unavailable",
+  ],
+};
+
+const TRANSACTION_STATUSES: ChargePointStatus[] = [
+  "Charging",
+  "SuspendedEV",
+  "SuspendedEVSE",
+];
+
+const IN_USE_STATUSES: ChargePointStatus[] = [
+  "Preparing",
+  "Charging",
+  "SuspendedEV",
+  "SuspendedEVSE",
+  "Finishing",
+];
+
+// Status an event moves a connector to, undefined when the event is not
+// valid in its current status
+const eventTarget = (
+  event: ConnectorEvent,
+  state: ConnectorState,
+): ChargePointStatus | undefined => {
+  const { status } = state;
+  switch (event) {
+    case "CablePlugged":
+    case "Authorized":
+      if (status === "Available" || status === "Reserved") {
+        return "Preparing";
+      }
+      return IN_USE_STATUSES.includes(status) ? status : undefined;
+    case "CableUnplugged":
+      // The EV left, a transaction that was not stopped stays suspended
+      if (state.inTransaction) {
+        return IN_USE_STATUSES.includes(status) ? "SuspendedEV" : undefined;
+      }
+      return status === "Preparing" || status === "Finishing"
+        ? "Available"
+        : status;
+    case "TransactionStarted":
+      return status === "Available" || status === "Preparing"
+        ? "Charging"
+        : undefined;
+    case "EVSuspended":
+      return ["Preparing", "Charging", "SuspendedEV", "SuspendedEVSE"].includes(
+        status,
+      )
+        ? "SuspendedEV"
+        : undefined;
+    case "EVSESuspended":
+      return ["Preparing", "Charging", "SuspendedEV", "SuspendedEVSE"].includes(
+        status,
+      )
+        ? "SuspendedEVSE"
+        : undefined;
+    case "ChargingResumed":
+      return ["Charging", "SuspendedEV", "SuspendedEVSE"].includes(status)
+        ? "Charging"
+        : undefined;
+    case "TransactionStopped":
+      // A connector that is out of service stays so
+      if (status === "Unavailable" || status === "Faulted") {
+        return state.inTransaction ? status : undefined;
+      }
+      if (!IN_USE_STATUSES.includes(status)) {
+        return undefined;
+      }
+      return state.plugged ? "Finishing" : "Available";
+    case "Reserved":
+      return status === "Available" ? "Reserved" : undefined;
+    case "ReservationEnded":
+      return status === "Reserved" ? "Available" : undefined;
+    case "Faulted":
+      return "Faulted";
+    case "FaultCleared":
+      return status === "Faulted"
+        ? (state.beforeFault ?? "Available")
+        : undefined;
+    case "Inoperative":
+      return "Unavailable";
+    case "Operative":
+      if (status !== "Unavailable") {
+        return status;
+      }
+      if (state.inTransaction) {
+        return "Charging";
+      }
+      return state.plugged ? "Preparing" : "Available";
+  }
+};
+
+// Status of connectors (1.6) or EVSEs (2.x), driven by charger events.
+// StatusNotifications are only sent when the reported status changes, and
+// transitions OCPP does not allow are rejected.
+export class ConnectorStateMachine {
+  private connectors: Map<number, ConnectorState> = new Map();
+
+  constructor(
+    private vcp: VCP,
+    private ocppVersion: OcppVersion,
+  ) {}
+
+  // Status reported for a connector: the 1.6 status, or the 2.x status
+  status(connectorId: number): ChargePointStatus | ConnectorStatus {
+    return this.reported(this.state(connectorId));
+  }
+
+  isPlugged(connectorId: number): boolean {
+    return this.state(connectorId).plugged;
+  }
+
+  // Whether an event is valid in the connector's current status
+  canHandle(connectorId: number, event: ConnectorEvent): boolean {
+    const state = this.state(connectorId);
+    // A reserved connector is prepared before the transaction starts
+    const status =
+      event === "TransactionStarted" && state.status === "Reserved"
+        ? "Preparing"
+        : state.status;
+    const target = eventTarget(event, { ...state, status });
+    return (
+      !!target && (target === status || TRANSITIONS[status].includes(target))
+    );
+  }
+
+  // Applies an event, returning false (and sending nothing) when the event is
+  // not valid in the connector's current status
+  handle(
+    connectorId: number,
+    event: ConnectorEvent,
+    errorCode?: ChargePointErrorCode,
+  ): boolean {
+    const state = this.state(connectorId);
+    if (event === "CablePlugged" || event === "CableUnplugged") {
+      state.plugged = event === "CablePlugged";
+    }
+    if (!this.canHandle(connectorId, event)) {
+      logger.warn(
+        `Connector ${connectorId}: ${event} is not valid while ${state.status}`,
+      );
+      return false;
+    }
+    if (event === "TransactionStarted" && state.status === "Reserved") {
+      this.transition(connectorId, "Preparing");
+    }
+    const target = eventTarget(event, state) as ChargePointStatus;
+    if (event === "TransactionStopped") {
+      state.inTransaction = false;
+      if (
+        state.beforeFault &&
+        TRANSACTION_STATUSES.includes(state.beforeFault)
+      ) {
+        state.beforeFault = "Available";
+      }
+    }
+    if (event === "Faulted" && state.status !== "Faulted") {
+      state.beforeFault = state.status;
+    }
+    return this.transition(
+      connectorId,
+      target,
+      event === "Faulted" ? (errorCode ?? "OtherError") : "NoError",
+    );
+  }
+
+  // Sets a status directly (1.6 status or 2.x connector status), returning
+  // false when the transition is not allowed
+  setStatus(
+    connectorId: number,
+    status: ChargePointStatus | ConnectorStatus,
+    errorCode: ChargePointErrorCode = "NoError",
+  ): boolean {
+    const state = this.state(connectorId);
+    if (status === "Occupied") {
+      // Keep the phase of a connector in use, otherwise a cable was plugged
+      if (IN_USE_STATUSES.includes(state.status)) {
+        return true;
+      }
+      state.plugged = true;
+      return this.transition(connectorId, "Preparing", errorCode);
+    }
+    if (status === "Faulted" && state.status !== "Faulted") {
+      state.beforeFault = state.status;
+    }
+    return this.transition(connectorId, status, errorCode);
+  }
+
+  // Sends the current status, as requested by TriggerMessage
+  notify(connectorId: number) {
+    this.send(connectorId, this.state(connectorId));
+  }
+
+  private transition(
+    connectorId: number,
+    status: ChargePointStatus,
+    errorCode: ChargePointErrorCode = "NoError",
+  ): boolean {
+    const state = this.state(connectorId);
+    if (
+      status !== state.status &&
+      !TRANSITIONS[state.status].includes(status)
+    ) {
+      logger.warn(
+        `Connector ${connectorId}: ${state.status} to ${status} is not a valid transition`,
+      );
+      return false;
+    }
+    const before = { ...state };
+    state.status = status;
+    state.errorCode = errorCode;
+    if (TRANSACTION_STATUSES.includes(status)) {
+      state.inTransaction = true;
+    } else if (status === "Available" || status === "Finishing") {
+      state.inTransaction = false;
+    }
+    if (
+      this.reported(before) !== this.reported(state) ||
+      (this.ocppVersion === OcppVersion.OCPP_1_6 &&
+        before.errorCode !== state.errorCode)
+    ) {
+      this.send(connectorId, state);
+    }
+    return true;
+  }
+
+  // Follows a StatusNotification when it is sent, including the ones sent
+  // without the state machine such as those after BootNotification
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  follow(payload: any) {
+    const { connectorId, evseId, status, connectorStatus, errorCode } = payload;
+    const state = this.state(evseId ?? connectorId);
+    state.errorCode = errorCode ?? "NoError";
+    const followed = status ?? connectorStatus;
+    if (this.reported(state) === followed) {
+      return;
+    }
+    if (followed === "Occupied") {
+      state.status = "Preparing";
+      state.plugged = true;
+    } else if (followed in TRANSITIONS) {
+      state.status = followed;
+    }
+  }
+
+  private state(connectorId: number): ConnectorState {
+    let state = this.connectors.get(connectorId);
+    if (!state) {
+      state = {
+        status: "Available",
+        errorCode: "NoError",
+        plugged: false,
+        inTransaction: false,
+      };
+      this.connectors.set(connectorId, state);
+    }
+    return state;
+  }
+
+  private reported(state: ConnectorState): ChargePointStatus | ConnectorStatus {
+    if (
+      this.ocppVersion === OcppVersion.OCPP_1_6 ||
+      !IN_USE_STATUSES.includes(state.status)
+    ) {
+      return state.status;
+    }
+    // 2.x connectors are occupied once a cable is plugged or charging started
+    return state.status === "Preparing" && !state.plugged
+      ? "Available"
+      : "Occupied";
+  }
+
+  private send(connectorId: number, state: ConnectorState) {
+    if (this.ocppVersion === OcppVersion.OCPP_1_6) {
+      this.vcp.send(
+        statusNotificationOcppMessage.request({
+          connectorId,
+          errorCode: state.errorCode,
+          status: state.status,
+          timestamp: new Date().toISOString(),
+        }),
+      );
+      return;
+    }
+    if (connectorId === 0) {
+      return;
+    }
+    const statusNotification =
+      this.ocppVersion === OcppVersion.OCPP_2_1
+        ? statusNotification21
+        : statusNotification201;
+    this.vcp.send(
+      statusNotification.request({
+        timestamp: new Date().toISOString(),
+        connectorStatus: this.reported(state) as ConnectorStatus,
+        evseId: connectorId,
+        connectorId: 1,
+      }),
+    );
+  }
+}
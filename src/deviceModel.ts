@@ -0,0 +1,925 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { z } from "zod";
+
+import {
+  getAlignedDataVariable,
+  setAlignedDataVariable,
+} from "./alignedDataScheduler";
+import { MEASURANDS } from "./configurationStore";
+import {
+  getAuthorizationVariable,
+  setAuthorizationVariable,
+} from "./idTokenAuthorization";
+import { logger } from "./logger";
+import { simulateMeterReading } from "./meterValueSampler";
+import type {
+  ComponentTypeSchema,
+  VariableTypeSchema,
+} from "./v201/messages/_common";
+import type { VCP } from "./vcp";
+
+type ComponentType = z.infer<typeof ComponentTypeSchema>;
+type VariableType = z.infer<typeof VariableTypeSchema>;
+
+const DEVICE_MODEL_FILE = "device-model.json";
+
+const NOMINAL_VOLTAGE = 230;
+const ITEMS_PER_MESSAGE = 20;
+const BYTES_PER_MESSAGE = 8192;
+// Call frame and the other fields of a NotifyReport besides its items
+const MESSAGE_OVERHEAD_BYTES = 256;
+const AVAILABILITY_STATES = "Available,Occupied,Reserved,Unavailable,Faulted";
+
+export type AttributeType = "Actual" | "Target" | "MinSet" | "MaxSet";
+
+export type Mutability = "ReadOnly" | "WriteOnly" | "ReadWrite";
+
+export type DataType =
+  | "string"
+  | "decimal"
+  | "integer"
+  | "dateTime"
+  | "boolean"
+  | "OptionList"
+  | "SequenceList"
+  | "MemberList";
+
+export type GetVariableStatus =
+  | "Accepted"
+  | "Rejected"
+  | "UnknownComponent"
+  | "UnknownVariable"
+  | "NotSupportedAttributeType";
+
+export type SetVariableStatus = GetVariableStatus | "RebootRequired";
+
+export type ReportBase =
+  | "ConfigurationInventory"
+  | "FullInventory"
+  | "SummaryInventory";
+
+// GetReport componentCriteria: components whose variable of that name is true
+export type ComponentCriterion = "Active" | "Available" | "Enabled" | "Problem";
+
+export interface Component {
+  name: string;
+  instance?: string;
+  evse?: { id: number; connectorId?: number };
+}
+
+export interface Variable {
+  name: string;
+  instance?: string;
+}
+
+export interface VariableAttribute {
+  type: AttributeType;
+  value?: string; // Not reported for WriteOnly attributes
+  mutability: Mutability;
+  persistent: boolean;
+  constant: boolean;
+}
+
+export interface VariableCharacteristics {
+  unit?: string;
+  dataType: DataType;
+  minLimit?: number;
+  maxLimit?: number;
+  valuesList?: string; // Allowed values of list data types
+  supportsMonitoring: boolean;
+}
+
+// A variable of a component as reported in NotifyReport
+export interface ReportData {
+  component: Component;
+  variable: Variable;
+  variableAttribute: VariableAttribute[];
+  variableCharacteristics: VariableCharacteristics;
+}
+
+type CharacteristicsOptions = Omit<
+  VariableCharacteristics,
+  "dataType" | "supportsMonitoring"
+>;
+
+// A componentVariable of a GetReport or GetMonitoringReport, all variables of
+// the component when no variable is given
+export interface ComponentVariable {
+  component: Component;
+  variable?: Variable;
+}
+
+export interface GetVariableResult {
+  status: GetVariableStatus;
+  value?: string;
+}
+
+interface VariableDefinition {
+  component: Component;
+  variable: Variable;
+  attributes: VariableAttribute[];
+  characteristics: VariableCharacteristics;
+  rebootRequired?: boolean; // Changed values only apply after a reboot
+  // Actual value kept by the charger outside of the device model
+  read?: () => string | undefined;
+  write?: (value: string) => "Accepted" | "Rejected";
+}
+
+const actual = (
+  mutability: Mutability,
+  value?: string,
+  constant = false,
+): VariableAttribute[] => [
+  { type: "Actual", value, mutability, persistent: true, constant },
+];
+
+const characteristics = (
+  dataType: DataType,
+  options: CharacteristicsOptions = {},
+): VariableCharacteristics => ({
+  dataType,
+  ...options,
+  supportsMonitoring: true,
+});
+
+const componentKey = ({ name, instance, evse }: Component): string =>
+  [
+    name,
+    instance ? `:${instance}` : "",
+    evse ? `@${evse.id}` : "",
+    evse?.connectorId ? `.${evse.connectorId}` : "",
+  ].join("");
+
+// Key of a variable, e.g. in the persisted values
+export const variableKey = (component: Component, variable: Variable): string =>
+  `${componentKey(component)}/${variable.name}${
+    variable.instance ? `:${variable.instance}` : ""
+  }`;
+
+// Whether a value fits the data type and limits of a variable
+const isValidValue = (
+  { dataType, minLimit, maxLimit, valuesList }: VariableCharacteristics,
+  value: string,
+): boolean => {
+  const allowed = valuesList?.split(",") ?? [];
+  switch (dataType) {
+    case "boolean":
+      return value === "true" || value === "false";
+    case "integer":
+    case "decimal": {
+      const pattern = dataType === "integer" ? /^-?\d+$/ : /^-?\d+(\.\d+)?$/;
+      const number = Number(value);
+      return (
+        pattern.test(value) &&
+        (minLimit === undefined || number >= minLimit) &&
+        (maxLimit === undefined || number <= maxLimit)
+      );
+    }
+    case "dateTime":
+      return !Number.isNaN(Date.parse(value));
+    case "OptionList":
+      return allowed.includes(value);
+    case "MemberList":
+    case "SequenceList":
+      return (
+        value !== "" &&
+        value.split(",").every((item) => allowed.includes(item.trim()))
+      );
+    default:
+      return maxLimit === undefined || value.length <= maxLimit;
+  }
+};
+
+// A component of a GetReport request matches components of its name, and of
+// its instance and EVSE (and connector) when given
+const matches = (component: Component, requested: Component): boolean =>
+  component.name === requested.name &&
+  (requested.instance === undefined ||
+    component.instance === requested.instance) &&
+  (requested.evse === undefined ||
+    (component.evse?.id === requested.evse.id &&
+      (requested.evse.connectorId === undefined ||
+        component.evse.connectorId === requested.evse.connectorId)));
+
+export const isRequested = (
+  component: Component,
+  variable: Variable,
+  componentVariables: ComponentVariable[],
+): boolean =>
+  componentVariables.length === 0 ||
+  componentVariables.some(
+    (requested) =>
+      matches(component, requested.component) &&
+      (!requested.variable ||
+        (variable.name === requested.variable.name &&
+          (requested.variable.instance === undefined ||
+            variable.instance === requested.variable.instance))),
+  );
+
+// Component and variable of a GetVariables, SetVariables or GetReport
+export const toComponent = (component: ComponentType): Component => ({
+  name: component.name,
+  instance: component.instance ?? undefined,
+  evse: component.evse
+    ? {
+        id: component.evse.id,
+        connectorId: component.evse.connectorId ?? undefined,
+      }
+    : undefined,
+});
+
+export const toVariable = (variable: VariableType): Variable => ({
+  name: variable.name,
+  instance: variable.instance ?? undefined,
+});
+
+// Variables of the charging station, its controllers and each EVSE and
+// connector, with their initial values from the charger config
+const buildVariables = (vcp: VCP): VariableDefinition[] => {
+  const { config } = vcp;
+  const phases = config.numberOfPhases ?? 3;
+  const maxCurrent = config.maxCurrent ?? 32;
+  const maxPowerW = maxCurrent * NOMINAL_VOLTAGE * phases;
+  const readOnly = (
+    component: Component,
+    name: string,
+    dataType: DataType,
+    value: string | (() => string | undefined),
+    options: CharacteristicsOptions = {},
+    instance?: string,
+  ): VariableDefinition => ({
+    component,
+    variable: { name, instance },
+    attributes: actual(
+      "ReadOnly",
+      typeof value === "string" ? value : undefined,
+      typeof value === "string",
+    ),
+    characteristics: characteristics(dataType, options),
+    read: typeof value === "string" ? undefined : value,
+  });
+  const readWrite = (
+    component: Component,
+    name: string,
+    dataType: DataType,
+    value: string,
+    options: CharacteristicsOptions = {},
+    instance?: string,
+  ): VariableDefinition => ({
+    component,
+    variable: { name, instance },
+    attributes: actual("ReadWrite", value),
+    characteristics: characteristics(dataType, options),
+  });
+  // Writes a 1.6 configuration key the charger already acts on
+  const configurationKey = (key: string) => ({
+    read: () => vcp.configuration.get(key),
+    write: (value: string): "Accepted" => {
+      vcp.configuration.set(key, value);
+      vcp.emit("configurationChanged", key, value);
+      return "Accepted";
+    },
+  });
+  const aligned = (name: string) => ({
+    read: () => getAlignedDataVariable(vcp, name),
+    write: (value: string) => {
+      const status = setAlignedDataVariable(vcp, name, value);
+      return status === "Accepted" ? status : "Rejected";
+    },
+  });
+  const authorization = (component: Component, name: string) => ({
+    read: () => getAuthorizationVariable(vcp, component.name, name),
+    write: (value: string) => {
+      const status = setAuthorizationVariable(vcp, component.name, name, value);
+      return status === "Accepted" ? status : "Rejected";
+    },
+  });
+  const availabilityState = (connectorId: number) => () =>
+    vcp.connectors.status(connectorId);
+  const problem = (connectorId: number) => () =>
+    String(vcp.connectors.status(connectorId) === "Faulted");
+
+  const chargingStation: Component = { name: "ChargingStation" };
+  const deviceData: Component = { name: "DeviceDataCtrlr" };
+  const ocppComm: Component = { name: "OCPPCommCtrlr" };
+  const sampledData: Component = { name: "SampledDataCtrlr" };
+  const alignedData: Component = { name: "AlignedDataCtrlr" };
+  const auth: Component = { name: "AuthCtrlr" };
+  const authCache: Component = { name: "AuthCacheCtrlr" };
+  const localAuthList: Component = { name: "LocalAuthListCtrlr" };
+  const security: Component = { name: "SecurityCtrlr" };
+  const smartCharging: Component = { name: "SmartChargingCtrlr" };
+  const reservation: Component = { name: "ReservationCtrlr" };
+  const tx: Component = { name: "TxCtrlr" };
+  const monitoring: Component = { name: "MonitoringCtrlr" };
+
+  const variables: VariableDefinition[] = [
+    readOnly(chargingStation, "Available", "boolean", "true"),
+    readOnly(
+      chargingStation,
+      "AvailabilityState",
+      "OptionList",
+      availabilityState(0),
+      {
+        valuesList: AVAILABILITY_STATES,
+      },
+    ),
+    readOnly(chargingStation, "Problem", "boolean", problem(0)),
+    readOnly(
+      chargingStation,
+      "Model",
+      "string",
+      config.chargePointModel ?? "Unknown",
+    ),
+    readOnly(
+      chargingStation,
+      "VendorName",
+      "string",
+      config.chargePointVendor ?? "Unknown",
+    ),
+    readOnly(chargingStation, "SupplyPhases", "integer", String(phases)),
+    // Message limits
+    ...["GetReport", "GetVariables", "SetVariables"].map((instance) =>
+      readOnly(
+        deviceData,
+        "ItemsPerMessage",
+        "integer",
+        String(ITEMS_PER_MESSAGE),
+        {},
+        instance,
+      ),
+    ),
+    ...["GetReport", "GetVariables", "SetVariables"].map((instance) =>
+      readOnly(
+        deviceData,
+        "BytesPerMessage",
+        "integer",
+        String(BYTES_PER_MESSAGE),
+        {},
+        instance,
+      ),
+    ),
+    // Communication
+    {
+      ...readWrite(ocppComm, "HeartbeatInterval", "integer", "", {
+        unit: "s",
+        minLimit: 0,
+      }),
+      ...configurationKey("HeartbeatInterval"),
+    },
+    {
+      ...readWrite(
+        ocppComm,
+        "MessageAttempts",
+        "integer",
+        "",
+        { minLimit: 0 },
+        "TransactionEvent",
+      ),
+      ...configurationKey("TransactionMessageAttempts"),
+    },
+    {
+      ...readWrite(
+        ocppComm,
+        "MessageAttemptInterval",
+        "integer",
+        "",
+        { unit: "s", minLimit: 0 },
+        "TransactionEvent",
+      ),
+      ...configurationKey("TransactionMessageRetryInterval"),
+    },
+    // Meter values
+    readOnly(sampledData, "Enabled", "boolean", "true"),
+    {
+      ...readWrite(sampledData, "TxUpdatedInterval", "integer", "", {
+        unit: "s",
+        minLimit: 0,
+      }),
+      ...configurationKey("MeterValueSampleInterval"),
+    },
+    readWrite(
+      sampledData,
+      "TxUpdatedMeasurands",
+      "MemberList",
+      "Energy.Active.Import.Register,Current.Offered,Power.Offered",
+      {
+        valuesList: MEASURANDS.join(","),
+      },
+    ),
+    readWrite(
+      sampledData,
+      "TxEndedMeasurands",
+      "MemberList",
+      "Energy.Active.Import.Register",
+      {
+        valuesList: MEASURANDS.join(","),
+      },
+    ),
+    readOnly(alignedData, "Enabled", "boolean", "true"),
+    {
+      ...readWrite(alignedData, "Interval", "integer", "", {
+        unit: "s",
+        minLimit: 0,
+      }),
+      ...aligned("Interval"),
+    },
+    {
+      ...readWrite(alignedData, "Measurands", "MemberList", "", {
+        valuesList: MEASURANDS.join(","),
+      }),
+      ...aligned("Measurands"),
+    },
+    {
+      ...readWrite(alignedData, "SendDuringIdle", "boolean", ""),
+      ...aligned("SendDuringIdle"),
+    },
+    // Authorization
+    readOnly(auth, "Enabled", "boolean", "true"),
+    ...[
+      "AuthorizeRemoteStart",
+      "LocalAuthorizeOffline",
+      "LocalPreAuthorize",
+    ].map((name) => ({
+      ...readWrite(auth, name, "boolean", ""),
+      ...authorization(auth, name),
+    })),
+    readOnly(authCache, "Available", "boolean", "true"),
+    {
+      ...readWrite(authCache, "Enabled", "boolean", ""),
+      ...authorization(authCache, "Enabled"),
+    },
+    {
+      ...readWrite(authCache, "LifeTime", "integer", "", {
+        unit: "s",
+        minLimit: 0,
+      }),
+      ...authorization(authCache, "LifeTime"),
+    },
+    {
+      ...readWrite(authCache, "Policy", "OptionList", "", {
+        valuesList: "LRU,LFU,FIFO",
+      }),
+      ...authorization(authCache, "Policy"),
+    },
+    readOnly(
+      authCache,
+      "Storage",
+      "integer",
+      () => getAuthorizationVariable(vcp, "AuthCacheCtrlr", "Storage"),
+      { unit: "B" },
+    ),
+    readOnly(localAuthList, "Available", "boolean", "true"),
+    {
+      ...readWrite(localAuthList, "Enabled", "boolean", ""),
+      ...authorization(localAuthList, "Enabled"),
+    },
+    ...["Entries", "ItemsPerMessage", "BytesPerMessage", "Storage"].map(
+      (name) =>
+        readOnly(localAuthList, name, "integer", () =>
+          getAuthorizationVariable(vcp, "LocalAuthListCtrlr", name),
+        ),
+    ),
+    // Security
+    readOnly(
+      security,
+      "SecurityProfile",
+      "integer",
+      String(vcp.securityProfile),
+    ),
+    // Smart charging
+    readOnly(smartCharging, "Enabled", "boolean", "true"),
+    readOnly(smartCharging, "Available", "boolean", "true"),
+    readOnly(
+      smartCharging,
+      "Entries",
+      "integer",
+      () => String(vcp.chargingProfiles.list().length),
+      {},
+      "ChargingProfiles",
+    ),
+    readWrite(smartCharging, "LimitChangeSignificance", "decimal", "1.0", {
+      minLimit: 0,
+    }),
+    readOnly(smartCharging, "PeriodsPerSchedule", "integer", "24"),
+    readOnly(smartCharging, "ProfileStackLevel", "integer", "99"),
+    readOnly(smartCharging, "RateUnit", "MemberList", "A,W", {
+      valuesList: "A,W",
+    }),
+    // Reservations and transactions
+    readOnly(reservation, "Enabled", "boolean", "true"),
+    readOnly(reservation, "Available", "boolean", "true"),
+    readOnly(reservation, "NonEvseSpecific", "boolean", "true"),
+    readWrite(tx, "EVConnectionTimeOut", "integer", "10", {
+      unit: "s",
+      minLimit: 0,
+    }),
+    readWrite(tx, "StopTxOnEVSideDisconnect", "boolean", "true"),
+    readWrite(tx, "StopTxOnInvalidId", "boolean", "true"),
+    readWrite(tx, "TxStartPoint", "MemberList", "PowerPathClosed", {
+      valuesList:
+        "ParkingBayOccupancy,EVConnected,Authorized,DataSigned,PowerPathClosed,EnergyTransfer",
+    }),
+    readWrite(tx, "TxStopPoint", "MemberList", "EVConnected,Authorized", {
+      valuesList:
+        "ParkingBayOccupancy,EVConnected,Authorized,PowerPathClosed,EnergyTransfer",
+    }),
+    // Monitoring
+    readWrite(monitoring, "Enabled", "boolean", "true"),
+    readOnly(monitoring, "Available", "boolean", "true"),
+    readOnly(
+      monitoring,
+      "ActiveMonitoringBase",
+      "OptionList",
+      () => vcp.variableMonitoring.base,
+      { valuesList: "All,FactoryDefault,HardWiredOnly" },
+    ),
+    readOnly(
+      monitoring,
+      "ActiveMonitoringLevel",
+      "integer",
+      () => String(vcp.variableMonitoring.level),
+      { minLimit: 0, maxLimit: 9 },
+    ),
+    ...["ClearVariableMonitoring", "SetVariableMonitoring"].map((instance) =>
+      readOnly(
+        monitoring,
+        "ItemsPerMessage",
+        "integer",
+        String(ITEMS_PER_MESSAGE),
+        {},
+        instance,
+      ),
+    ),
+    ...["ClearVariableMonitoring", "SetVariableMonitoring"].map((instance) =>
+      readOnly(
+        monitoring,
+        "BytesPerMessage",
+        "integer",
+        String(BYTES_PER_MESSAGE),
+        {},
+        instance,
+      ),
+    ),
+  ];
+
+  for (let id = 1; id <= (config.numberOfConnectors ?? 1); id++) {
+    const evse: Component = { name: "EVSE", evse: { id } };
+    const connector: Component = {
+      name: "Connector",
+      evse: { id, connectorId: 1 },
+    };
+    const temperatureSensor: Component = {
+      name: "TemperatureSensor",
+      evse: { id },
+    };
+    const reading = () => {
+      const transaction = vcp.transactionManager.getActiveTransaction(id);
+      return simulateMeterReading(
+        transaction ?? { meterValue: 0 },
+        transaction !== undefined,
+        vcp.chargingProfiles.offeredCurrent(id),
+      );
+    };
+    variables.push(
+      readOnly(evse, "Available", "boolean", "true"),
+      readOnly(evse, "AvailabilityState", "OptionList", availabilityState(id), {
+        valuesList: AVAILABILITY_STATES,
+      }),
+      readOnly(evse, "Problem", "boolean", problem(id)),
+      {
+        component: evse,
+        variable: { name: "Power" },
+        attributes: [
+          ...actual("ReadOnly"),
+          {
+            type: "MaxSet",
+            value: String(maxPowerW),
+            mutability: "ReadOnly",
+            persistent: true,
+            constant: true,
+          },
+        ],
+        characteristics: characteristics("decimal", {
+          unit: "W",
+          maxLimit: maxPowerW,
+        }),
+        // Power the EVSE offers under its charging limit
+        read: () =>
+          String(
+            vcp.chargingProfiles.offeredCurrent(id) * NOMINAL_VOLTAGE * phases,
+          ),
+      },
+      readOnly(evse, "SupplyPhases", "integer", String(phases)),
+      // Simulated draw and temperature, changing between readings
+      readOnly(
+        evse,
+        "ACCurrent",
+        "decimal",
+        () => reading().currentA[0].toFixed(1),
+        { unit: "A", minLimit: 0, maxLimit: maxCurrent },
+      ),
+      readOnly(
+        temperatureSensor,
+        "Temperature",
+        "decimal",
+        () => reading().temperatureC?.toFixed(1),
+        { unit: "Celsius" },
+      ),
+      readOnly(connector, "Available", "boolean", "true"),
+      readOnly(
+        connector,
+        "AvailabilityState",
+        "OptionList",
+        availabilityState(id),
+        {
+          valuesList: AVAILABILITY_STATES,
+        },
+      ),
+      readOnly(connector, "Problem", "boolean", problem(id)),
+      readOnly(connector, "ConnectorType", "string", "cType2"),
+      readOnly(connector, "SupplyPhases", "integer", String(phases)),
+    );
+  }
+  return variables;
+};
+
+// OCPP 2.x device model of a charging station: its components (with EVSE and
+// connector instances) and their variables, read with GetVariables and
+// reports and changed with SetVariables. Changed values are persisted to the
+// state directory and survive restarts.
+export class DeviceModel {
+  private variables: VariableDefinition[];
+  private byKey: Map<string, VariableDefinition>;
+  private componentKeys: Set<string>;
+  // Values changed with SetVariables, the only ones persisted
+  private changedValues: Record<
+    string,
+    Partial<Record<AttributeType, string>>
+  > = {};
+  private filePath?: string;
+
+  constructor(vcp: VCP, stateDir?: string) {
+    this.variables = buildVariables(vcp);
+    this.byKey = new Map(
+      this.variables.map((definition) => [
+        variableKey(definition.component, definition.variable),
+        definition,
+      ]),
+    );
+    this.componentKeys = new Set(
+      this.variables.map((definition) => componentKey(definition.component)),
+    );
+    if (stateDir) {
+      this.filePath = path.join(stateDir, DEVICE_MODEL_FILE);
+      this.load();
+    }
+  }
+
+  get(
+    component: Component,
+    variable: Variable,
+    attributeType: AttributeType = "Actual",
+  ): GetVariableResult {
+    const found = this.find(component, variable);
+    if (typeof found === "string") {
+      return { status: found };
+    }
+    const attribute = found.attributes.find(
+      (attribute) => attribute.type === attributeType,
+    );
+    if (!attribute) {
+      return { status: "NotSupportedAttributeType" };
+    }
+    if (attribute.mutability === "WriteOnly") {
+      return { status: "Rejected" };
+    }
+    return { status: "Accepted", value: this.valueOf(found, attribute) };
+  }
+
+  set(
+    component: Component,
+    variable: Variable,
+    value: string,
+    attributeType: AttributeType = "Actual",
+  ): SetVariableStatus {
+    const found = this.find(component, variable);
+    if (typeof found === "string") {
+      return found;
+    }
+    const attribute = found.attributes.find(
+      (attribute) => attribute.type === attributeType,
+    );
+    if (!attribute) {
+      return "NotSupportedAttributeType";
+    }
+    if (
+      attribute.mutability === "ReadOnly" ||
+      !isValidValue(found.characteristics, value)
+    ) {
+      return "Rejected";
+    }
+    if (!this.apply(found, attribute, value)) {
+      return "Rejected";
+    }
+    const key = variableKey(found.component, found.variable);
+    this.changedValues[key] = {
+      ...this.changedValues[key],
+      [attribute.type]: value,
+    };
+    this.persist();
+    return found.rebootRequired ? "RebootRequired" : "Accepted";
+  }
+
+  // Characteristics of a variable, e.g. to check the monitors set on it
+  characteristicsOf(
+    component: Component,
+    variable: Variable,
+  ): VariableCharacteristics | "UnknownComponent" | "UnknownVariable" {
+    const found = this.find(component, variable);
+    return typeof found === "string" ? found : found.characteristics;
+  }
+
+  // Actual value of a variable, for the charger's own use
+  value(component: Component, variable: Variable): string | undefined {
+    return this.get(component, variable).value;
+  }
+
+  // Variables of a GetBaseReport: all of them, those that can be set, or the
+  // availability of the station, EVSEs and connectors and their problems
+  report(reportBase: ReportBase): ReportData[] {
+    return this.variables
+      .filter((definition) => {
+        switch (reportBase) {
+          case "ConfigurationInventory":
+            return definition.attributes.some(
+              (attribute) => attribute.mutability !== "ReadOnly",
+            );
+          case "SummaryInventory":
+            return (
+              definition.variable.name === "AvailabilityState" ||
+              (definition.variable.name === "Problem" &&
+                definition.read?.() === "true")
+            );
+          default:
+            return true;
+        }
+      })
+      .map((definition) => this.reportData(definition));
+  }
+
+  // Variables of a GetReport: those of the requested components (all of a
+  // component without a variable) that meet any of the component criteria
+  query(
+    componentVariables: ComponentVariable[] = [],
+    componentCriteria: ComponentCriterion[] = [],
+  ): ReportData[] {
+    const meetsCriteria = (definition: VariableDefinition) =>
+      componentCriteria.length === 0 ||
+      componentCriteria.some(
+        (criterion) =>
+          this.value(definition.component, { name: criterion }) === "true",
+      );
+    return this.variables
+      .filter(
+        (definition) =>
+          isRequested(
+            definition.component,
+            definition.variable,
+            componentVariables,
+          ) && meetsCriteria(definition),
+      )
+      .map((definition) => this.reportData(definition));
+  }
+
+  // Splits the items of a report over messages of at most the GetReport
+  // ItemsPerMessage and BytesPerMessage of DeviceDataCtrlr. An item too large
+  // for a message on its own is still sent, alone.
+  pages<T>(items: T[]): T[][] {
+    const limit = (name: string) =>
+      Number(
+        this.value(
+          { name: "DeviceDataCtrlr" },
+          { name, instance: "GetReport" },
+        ),
+      );
+    const itemsPerMessage = limit("ItemsPerMessage");
+    const bytesPerMessage = limit("BytesPerMessage") - MESSAGE_OVERHEAD_BYTES;
+    const pages: T[][] = [];
+    let page: T[] = [];
+    let bytes = 0;
+    for (const item of items) {
+      const size = Buffer.byteLength(JSON.stringify(item));
+      if (
+        page.length > 0 &&
+        (page.length >= itemsPerMessage || bytes + size > bytesPerMessage)
+      ) {
+        pages.push(page);
+        page = [];
+        bytes = 0;
+      }
+      page.push(item);
+      bytes += size;
+    }
+    if (page.length > 0) {
+      pages.push(page);
+    }
+    return pages;
+  }
+
+  private find(
+    component: Component,
+    variable: Variable,
+  ): VariableDefinition | "UnknownComponent" | "UnknownVariable" {
+    if (!this.componentKeys.has(componentKey(component))) {
+      return "UnknownComponent";
+    }
+    return (
+      this.byKey.get(variableKey(component, variable)) ?? "UnknownVariable"
+    );
+  }
+
+  private valueOf(
+    definition: VariableDefinition,
+    attribute: VariableAttribute,
+  ): string | undefined {
+    if (attribute.type === "Actual" && definition.read) {
+      return definition.read();
+    }
+    return attribute.value;
+  }
+
+  // Stores a value, or hands it to the charger state it belongs to
+  private apply(
+    definition: VariableDefinition,
+    attribute: VariableAttribute,
+    value: string,
+  ): boolean {
+    if (attribute.type === "Actual" && definition.write) {
+      return definition.write(value) === "Accepted";
+    }
+    attribute.value = value;
+    return true;
+  }
+
+  private reportData(definition: VariableDefinition): ReportData {
+    return {
+      component: definition.component,
+      variable: definition.variable,
+      variableAttribute: definition.attributes.map((attribute) => ({
+        ...attribute,
+        value:
+          attribute.mutability === "WriteOnly"
+            ? undefined
+            : this.valueOf(definition, attribute),
+      })),
+      variableCharacteristics: definition.characteristics,
+    };
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const values: Record<
+        string,
+        Partial<Record<AttributeType, string>>
+      > = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+      for (const [key, attributeValues] of Object.entries(values)) {
+        const definition = this.byKey.get(key);
+        if (!definition) {
+          continue;
+        }
+        for (const attribute of definition.attributes) {
+          const value = attributeValues[attribute.type];
+          if (
+            value !== undefined &&
+            attribute.mutability !== "ReadOnly" &&
+            attribute.persistent &&
+            this.apply(definition, attribute, value)
+          ) {
+            this.changedValues[key] = {
+              ...this.changedValues[key],
+              [attribute.type]: value,
+            };
+          }
+        }
+      }
+    } catch (err) {
+      logger.error(`Failed to load device model from ${this.filePath}`, err);
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify(this.changedValues, null, 2),
+    );
+  }
+}
@@ -0,0 +1,469 @@
+import {
+  constants,
+  type X509Certificate,
+  createHash,
+  verify,
+} from "node:crypto";
+import * as path from "node:path";
+import { Writable } from "node:stream";
+import { Client as FtpClient } from "basic-ftp";
+
+import { isValidNow, parseCertificate } from "./certificateStore";
+import { logger } from "./logger";
+import { OcppVersion } from "./ocppVersion";
+import { firmwareStatusNotificationOcppMessage } from "./v16/messages/firmwareStatusNotification";
+import { securityEventNotificationOcppMessage } from "./v16/messages/securityEventNotification";
+import { signedFirmwareStatusNotificationOcppMessage } from "./v16/messages/signedFirmwareStatusNotification";
+import { firmwareStatusNotificationOcppOutgoing as firmwareStatusNotification21 } from "./v21/messages/firmwareStatusNotification";
+import { securityEventNotificationOcppOutgoing as securityEventNotification21 } from "./v21/messages/securityEventNotification";
+import { firmwareStatusNotificationOcppOutgoing as firmwareStatusNotification201 } from "./v201/messages/firmwareStatusNotification";
+import { securityEventNotificationOcppOutgoing as securityEventNotification201 } from "./v201/messages/securityEventNotification";
+import type { VCP } from "./vcp";
+
+// setTimeout fires immediately for delays above ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+const DEFAULT_RETRIES = 0;
+const DEFAULT_RETRY_INTERVAL_SEC = 30;
+const INSTALL_DURATION_MS = 2_000;
+// How long the installation waits for the CSMS to accept the charger again
+const REBOOT_TIMEOUT_MS = 300_000;
+// How often an installation waiting for transactions to end checks again
+const TRANSACTION_CHECK_INTERVAL_MS = 1_000;
+const MAX_FIRMWARE_VERSION_LENGTH = 50;
+const MAX_TECH_INFO_LENGTH = 255;
+
+export type FirmwareStatus =
+  | "Idle"
+  | "DownloadScheduled"
+  | "Downloading"
+  | "DownloadPaused"
+  | "Downloaded"
+  | "DownloadFailed"
+  | "SignatureVerified"
+  | "InvalidSignature"
+  | "InstallScheduled"
+  | "Installing"
+  | "InstallRebooting"
+  | "Installed"
+  | "InstallationFailed"
+  | "InstallVerificationFailed";
+
+// Statuses of a 1.6 FirmwareStatusNotification, the others are only reported
+// for a SignedUpdateFirmware
+const BASIC_STATUSES = [
+  "Idle",
+  "Downloading",
+  "Downloaded",
+  "DownloadFailed",
+  "Installing",
+  "Installed",
+  "InstallationFailed",
+] as const;
+
+const isBasicStatus = (
+  status: FirmwareStatus,
+): status is (typeof BASIC_STATUSES)[number] =>
+  (BASIC_STATUSES as readonly string[]).includes(status);
+
+export type UpdateFirmwareStatus =
+  | "Accepted"
+  | "AcceptedCanceled"
+  | "Rejected"
+  | "InvalidCertificate";
+
+// Verification failures of a signed update that can be forced, e.g. from the
+// dashboard
+export type FirmwareFailure = "InvalidCertificate" | "InvalidSignature";
+
+export interface FirmwareUpdate {
+  requestId?: number; // 1.6 SignedUpdateFirmware and 2.x UpdateFirmware
+  location: string; // HTTP(S) or FTP(S) URL
+  retrieveDate: Date;
+  installDate?: Date;
+  retries?: number; // Download attempts after the first one
+  retryInterval?: number; // Seconds between download attempts
+  signingCertificate?: string;
+  signature?: string;
+}
+
+interface FirmwareJob {
+  update: FirmwareUpdate;
+  cancelled: boolean;
+  installing: boolean; // Can no longer be cancelled
+  timer?: NodeJS.Timeout;
+  wake?: () => void;
+}
+
+// Downloads a firmware file over HTTP(S) or FTP(S), FTP logging in
+// anonymously unless the URL has credentials
+const fetchFirmware = async (location: string): Promise<Buffer> => {
+  const url = new URL(location);
+  switch (url.protocol) {
+    case "http:":
+    case "https:": {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    }
+    case "ftp:":
+    case "ftps:": {
+      const client = new FtpClient(DOWNLOAD_TIMEOUT_MS);
+      const chunks: Buffer[] = [];
+      try {
+        await client.access({
+          host: url.hostname,
+          port: url.port ? Number.parseInt(url.port, 10) : 21,
+          user: decodeURIComponent(url.username) || "anonymous",
+          password: decodeURIComponent(url.password) || "guest",
+          secure: url.protocol === "ftps:",
+        });
+        await client.downloadTo(
+          new Writable({
+            write(chunk, _encoding, callback) {
+              chunks.push(chunk);
+              callback();
+            },
+          }),
+          decodeURIComponent(url.pathname),
+        );
+      } finally {
+        client.close();
+      }
+      return Buffer.concat(chunks);
+    }
+    default:
+      throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+};
+
+// Verifies a base64 signature of the firmware's SHA-256 hash: RSA (PSS or
+// PKCS#1 v1.5 padding) or ECDSA, depending on the certificate's key
+const verifySignature = (
+  firmware: Buffer,
+  certificate: X509Certificate,
+  signature: string,
+): boolean => {
+  const key = certificate.publicKey;
+  const signatureBytes = Buffer.from(signature, "base64");
+  try {
+    if (key.asymmetricKeyType === "rsa") {
+      return [
+        constants.RSA_PKCS1_PSS_PADDING,
+        constants.RSA_PKCS1_PADDING,
+      ].some((padding) =>
+        verify(
+          "sha256",
+          firmware,
+          { key, padding, saltLength: constants.RSA_PSS_SALTLEN_AUTO },
+          signatureBytes,
+        ),
+      );
+    }
+    return verify("sha256", firmware, key, signatureBytes);
+  } catch {
+    return false;
+  }
+};
+
+// A signed 1.6 update always has both, a 2.x one at least one of them
+const isSigned = (update: FirmwareUpdate): boolean =>
+  update.signature !== undefined || update.signingCertificate !== undefined;
+
+// Version of a firmware file: the one in its file name (e.g. vcp-1.2.3.bin),
+// or else the current version tagged with the file's checksum
+const firmwareVersionOf = (
+  location: string,
+  firmware: Buffer,
+  currentVersion: string,
+): string => {
+  const fileName = path.posix.basename(new URL(location).pathname);
+  const version =
+    fileName.match(/\d+(?:\.\d+)+/)?.[0] ??
+    `${currentVersion}+${createHash("sha256")
+      .update(firmware)
+      .digest("hex")
+      .slice(0, 8)}`;
+  return version.slice(0, MAX_FIRMWARE_VERSION_LENGTH);
+};
+
+// Firmware updates of a charger: the firmware is downloaded at the retrieve
+// date (retried as requested), installed at the install date once no
+// transaction runs, and the charger reboots to report the new firmware
+// version in its BootNotification. Every step is reported with a
+// (Signed)FirmwareStatusNotification. A signed update is only accepted with a
+// signing certificate issued by an installed ManufacturerRootCertificate, and
+// only installed when the signature of the downloaded firmware is valid.
+export class FirmwareManager {
+  status: FirmwareStatus = "Idle";
+  failure?: FirmwareFailure;
+  private job?: FirmwareJob;
+
+  constructor(
+    private vcp: VCP,
+    private ocppVersion: OcppVersion,
+  ) {}
+
+  get version(): string {
+    return this.vcp.config.firmwareVersion ?? "1.0.0";
+  }
+
+  // A new update cancels the one in progress, unless it is being installed
+  update(update: FirmwareUpdate): UpdateFirmwareStatus {
+    const current = this.job;
+    if (current?.installing) {
+      return "Rejected";
+    }
+    const certificateProblem = isSigned(update)
+      ? this.certificateProblem(update)
+      : undefined;
+    if (certificateProblem) {
+      logger.warn(
+        `Firmware signing certificate rejected: ${certificateProblem}`,
+      );
+      this.securityEvent(
+        "InvalidFirmwareSigningCertificate",
+        certificateProblem,
+      );
+      return "InvalidCertificate";
+    }
+    if (current) {
+      this.cancel(current);
+    }
+    const job: FirmwareJob = { update, cancelled: false, installing: false };
+    this.job = job;
+    // Starts once the update request was answered
+    job.timer = setTimeout(() => {
+      this.run(job).catch((err: Error) =>
+        logger.error(`Firmware update failed: ${err.message}`),
+      );
+    }, 0);
+    return current ? "AcceptedCanceled" : "Accepted";
+  }
+
+  stop() {
+    if (this.job && !this.job.installing) {
+      this.cancel(this.job);
+      this.job = undefined;
+    }
+  }
+
+  private async run(job: FirmwareJob) {
+    const { update } = job;
+    if (update.retrieveDate.getTime() > Date.now()) {
+      this.report(job, "DownloadScheduled");
+      await this.waitUntil(job, update.retrieveDate);
+    }
+    const firmware = await this.download(job);
+    if (job.cancelled) {
+      return;
+    }
+    if (!firmware) {
+      this.finish(job, "DownloadFailed");
+      return;
+    }
+    this.report(job, "Downloaded");
+    if (isSigned(update)) {
+      const signatureProblem = this.signatureProblem(update, firmware);
+      if (signatureProblem) {
+        logger.warn(`Firmware signature rejected: ${signatureProblem}`);
+        this.securityEvent("InvalidFirmwareSignature", signatureProblem);
+        this.finish(job, "InvalidSignature");
+        return;
+      }
+      this.report(job, "SignatureVerified");
+    }
+    if (update.installDate && update.installDate.getTime() > Date.now()) {
+      this.report(job, "InstallScheduled");
+      await this.waitUntil(job, update.installDate);
+    }
+    while (
+      !job.cancelled &&
+      this.vcp.transactionManager.transactions.size > 0
+    ) {
+      await this.wait(job, TRANSACTION_CHECK_INTERVAL_MS);
+    }
+    if (job.cancelled) {
+      return;
+    }
+    job.installing = true;
+    this.report(job, "Installing");
+    await this.wait(job, INSTALL_DURATION_MS);
+    const version = firmwareVersionOf(update.location, firmware, this.version);
+    this.vcp.config.firmwareVersion = version;
+    this.vcp.configuration.set("FirmwareVersion", version);
+    logger.info(`Installed firmware ${version}, rebooting`);
+    this.report(job, "InstallRebooting");
+    const booted = this.waitForBoot();
+    await this.vcp.reboot("FirmwareUpdate");
+    if (!(await booted)) {
+      logger.error(
+        `BootNotification not accepted within ${REBOOT_TIMEOUT_MS}ms after installing firmware ${version}`,
+      );
+      this.finish(job, "InstallationFailed");
+      return;
+    }
+    this.finish(job, "Installed");
+  }
+
+  // Resolves with whether the CSMS accepted the charger within the timeout
+  private waitForBoot(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const onBootAccepted = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.vcp.off("bootAccepted", onBootAccepted);
+        resolve(false);
+      }, REBOOT_TIMEOUT_MS);
+      this.vcp.once("bootAccepted", onBootAccepted);
+    });
+  }
+
+  // Tries the download once and then as many times as retries allows
+  private async download(job: FirmwareJob): Promise<Buffer | undefined> {
+    const { location, retries, retryInterval } = job.update;
+    const attempts = 1 + (retries ?? DEFAULT_RETRIES);
+    this.report(job, "Downloading");
+    for (let attempt = 1; attempt <= attempts && !job.cancelled; attempt++) {
+      try {
+        return await fetchFirmware(location);
+      } catch (err) {
+        logger.warn(
+          `Firmware download from ${location} failed (attempt ${attempt} of ${attempts}): ${(err as Error).message}`,
+        );
+      }
+      if (attempt < attempts) {
+        await this.wait(
+          job,
+          (retryInterval ?? DEFAULT_RETRY_INTERVAL_SEC) * 1000,
+        );
+      }
+    }
+    return undefined;
+  }
+
+  // Why the signing certificate of an update is not trusted, undefined when it
+  // is
+  private certificateProblem(update: FirmwareUpdate): string | undefined {
+    if (this.failure === "InvalidCertificate") {
+      return "Forced invalid certificate";
+    }
+    const certificate = parseCertificate(update.signingCertificate ?? "");
+    if (!certificate) {
+      return "No valid signing certificate";
+    }
+    if (!isValidNow(certificate)) {
+      return "Signing certificate is expired or not yet valid";
+    }
+    const roots = this.vcp.certificates.list("ManufacturerRootCertificate");
+    if (roots.length === 0) {
+      return "No ManufacturerRootCertificate installed";
+    }
+    const isTrusted = roots.some(
+      (root) =>
+        isValidNow(root) &&
+        certificate.checkIssued(root) &&
+        certificate.verify(root.publicKey),
+    );
+    if (!isTrusted) {
+      return "Signing certificate is not issued by an installed ManufacturerRootCertificate";
+    }
+    return undefined;
+  }
+
+  // Why the signature of a downloaded firmware is invalid, undefined when it
+  // is valid
+  private signatureProblem(
+    update: FirmwareUpdate,
+    firmware: Buffer,
+  ): string | undefined {
+    if (this.failure === "InvalidSignature") {
+      return "Forced invalid signature";
+    }
+    // The certificate was checked when the update was accepted
+    const certificate = parseCertificate(update.signingCertificate ?? "");
+    if (
+      !certificate ||
+      !update.signature ||
+      !verifySignature(firmware, certificate, update.signature)
+    ) {
+      return "Signature does not match the firmware";
+    }
+    return undefined;
+  }
+
+  private securityEvent(type: string, techInfo: string) {
+    const securityEventNotification =
+      this.ocppVersion === OcppVersion.OCPP_1_6
+        ? securityEventNotificationOcppMessage
+        : this.ocppVersion === OcppVersion.OCPP_2_1
+          ? securityEventNotification21
+          : securityEventNotification201;
+    this.vcp.send(
+      securityEventNotification.request({
+        type,
+        timestamp: new Date().toISOString(),
+        techInfo: techInfo.slice(0, MAX_TECH_INFO_LENGTH),
+      }),
+    );
+  }
+
+  private finish(job: FirmwareJob, status: FirmwareStatus) {
+    this.report(job, status);
+    if (this.job === job) {
+      this.job = undefined;
+    }
+  }
+
+  private cancel(job: FirmwareJob) {
+    job.cancelled = true;
+    clearTimeout(job.timer);
+    job.wake?.();
+  }
+
+  // Resolves after the delay, or right away when the job is cancelled
+  private wait(job: FirmwareJob, delayMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      job.wake = resolve;
+      job.timer = setTimeout(resolve, Math.min(delayMs, MAX_TIMER_DELAY_MS));
+    });
+  }
+
+  private async waitUntil(job: FirmwareJob, date: Date) {
+    while (!job.cancelled && date.getTime() > Date.now()) {
+      await this.wait(job, date.getTime() - Date.now());
+    }
+  }
+
+  private report(job: FirmwareJob, status: FirmwareStatus) {
+    if (job.cancelled) {
+      return;
+    }
+    this.status = status;
+    this.vcp.emit("firmwareStatusChanged", status);
+    const { requestId } = job.update;
+    if (this.ocppVersion !== OcppVersion.OCPP_1_6) {
+      const firmwareStatusNotification =
+        this.ocppVersion === OcppVersion.OCPP_2_1
+          ? firmwareStatusNotification21
+          : firmwareStatusNotification201;
+      this.vcp.send(firmwareStatusNotification.request({ status, requestId }));
+    } else if (requestId !== undefined) {
+      this.vcp.send(
+        signedFirmwareStatusNotificationOcppMessage.request({
+          status,
+          requestId,
+        }),
+      );
+    } else if (isBasicStatus(status)) {
+      this.vcp.send(firmwareStatusNotificationOcppMessage.request({ status }));
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import type { z } from "zod";
+
+import type {
+  AuthCachePolicy,
+  CacheOptions,
+  IdTokenInfo,
+  LocalListUpdate,
+  SendLocalListStatus,
+} from "./localAuthorization";
+import { logger } from "./logger";
+import { call } from "./messageFactory";
+import {
+  sampleMeterValue,
+  simulateMeterReading,
+  toMeterValueType,
+} from "./meterValueSampler";
+import type { TransactionState } from "./transactionManager";
+import type { IdTokenTypeSchema } from "./v21/messages/_common";
+import type { VCP } from "./vcp";
+
+export type IdToken = z.infer<typeof IdTokenTypeSchema>;
+
+const LOCAL_AUTH_LIST_MAX_ENTRIES = 100;
+const LOCAL_AUTH_LIST_ITEMS_PER_MESSAGE = 100;
+const LOCAL_AUTH_LIST_BYTES_PER_MESSAGE = 65536;
+const DEFAULT_AUTH_CACHE_MAX_STORAGE = 65536;
+export const AUTHORIZATION_COMPONENTS = [
+  "AuthCtrlr",
+  "AuthCacheCtrlr",
+  "LocalAuthListCtrlr",
+];
+
+const AUTH_CACHE_POLICIES: AuthCachePolicy[] = ["LRU", "LFU", "FIFO"];
+
+// Writable boolean variables and the charger config they are stored in
+const BOOLEAN_VARIABLES: Record<
+  string,
+  | "authorizeRemoteTxRequests"
+  | "localAuthorizeOffline"
+  | "localPreAuthorize"
+  | "authCacheEnabled"
+  | "localAuthListEnabled"
+> = {
+  "AuthCtrlr.AuthorizeRemoteStart": "authorizeRemoteTxRequests",
+  "AuthCtrlr.LocalAuthorizeOffline": "localAuthorizeOffline",
+  "AuthCtrlr.LocalPreAuthorize": "localPreAuthorize",
+  "AuthCacheCtrlr.Enabled": "authCacheEnabled",
+  "LocalAuthListCtrlr.Enabled": "localAuthListEnabled",
+};
+
+// Local list and cache key of an IdTokenType: the same idToken of another
+// type or with other additionalInfo is another token
+export const idTokenKey = (idToken: IdToken): string =>
+  [
+    `${idToken.type}:${idToken.idToken}`,
+    ...(idToken.additionalInfo ?? [])
+      .map((info) => `${info.type}=${info.additionalIdToken}`)
+      .sort(),
+  ].join(";");
+
+const cacheOptions = (vcp: VCP): CacheOptions => ({
+  lifeTimeSec: vcp.config.authCacheLifeTime ?? 0,
+  maxStorageBytes:
+    vcp.config.authCacheMaxStorage ?? DEFAULT_AUTH_CACHE_MAX_STORAGE,
+  policy: vcp.config.authCachePolicy ?? "LRU",
+});
+
+// Applies a 2.x SendLocalList, limited by the LocalAuthListCtrlr variables
+export const updateLocalList = (
+  vcp: VCP,
+  update: LocalListUpdate,
+): Exclude<SendLocalListStatus, "NotSupported"> => {
+  if (
+    JSON.stringify(update.entries).length > LOCAL_AUTH_LIST_BYTES_PER_MESSAGE
+  ) {
+    return "Failed";
+  }
+  return vcp.localAuthorization.updateList(update, {
+    maxListLength: LOCAL_AUTH_LIST_MAX_ENTRIES,
+    maxUpdateLength: LOCAL_AUTH_LIST_ITEMS_PER_MESSAGE,
+  });
+};
+
+// idTokenInfo of the local list or, failing that, of the authorization cache,
+// each only when enabled by its Enabled variable
+export const localIdTokenInfo = (
+  vcp: VCP,
+  idToken: IdToken,
+): IdTokenInfo | undefined => {
+  const key = idTokenKey(idToken);
+  const fromList =
+    (vcp.config.localAuthListEnabled ?? true)
+      ? vcp.localAuthorization.getFromList<IdTokenInfo>(key)
+      : undefined;
+  if (fromList) {
+    return fromList;
+  }
+  return (vcp.config.authCacheEnabled ?? true)
+    ? vcp.localAuthorization.getFromCache<IdTokenInfo>(key, cacheOptions(vcp))
+    : undefined;
+};
+
+// Caches the idTokenInfo a CSMS answered Authorize or TransactionEvent with
+export const cacheIdTokenInfo = (
+  vcp: VCP,
+  idToken: IdToken,
+  idTokenInfo: IdTokenInfo | null | undefined,
+) => {
+  if (idTokenInfo && (vcp.config.authCacheEnabled ?? true)) {
+    vcp.localAuthorization.updateCache(
+      idTokenKey(idToken),
+      idTokenInfo,
+      cacheOptions(vcp),
+    );
+  }
+};
+
+// Authorizes an idToken presented at the charger, like authorizeIdTag does
+// for 1.6 but governed by the AuthCtrlr variables
+export const authorizeIdToken = async (
+  vcp: VCP,
+  idToken: IdToken,
+): Promise<IdTokenInfo> => {
+  const local = localIdTokenInfo(vcp, idToken);
+  const locallyAccepted = local?.status === "Accepted";
+  if (
+    locallyAccepted &&
+    vcp.isConnected() &&
+    (vcp.config.localPreAuthorize ?? false)
+  ) {
+    return local;
+  }
+  try {
+    const outcome = await vcp.call(call("Authorize", { idToken }));
+    if (!("errorCode" in outcome)) {
+      return outcome.payload.idTokenInfo;
+    }
+    logger.warn(
+      `Authorize of ${idToken.idToken} failed with ${outcome.errorCode}`,
+    );
+  } catch (err) {
+    logger.warn(
+      `Authorizing ${idToken.idToken} locally: ${(err as Error).message}`,
+    );
+  }
+  if (locallyAccepted && (vcp.config.localAuthorizeOffline ?? true)) {
+    return local;
+  }
+  return { status: local ? local.status : "Unknown" };
+};
+
+// Whether an idToken may stop a transaction: the idToken that started it, or
+// one authorized with the same groupIdToken
+export const authorizeStop = async (
+  vcp: VCP,
+  transaction: Pick<TransactionState, "idTag" | "groupIdToken">,
+  idToken: IdToken,
+): Promise<boolean> => {
+  if (idToken.idToken === transaction.idTag) {
+    return true;
+  }
+  if (!transaction.groupIdToken) {
+    return false;
+  }
+  const idTokenInfo = await authorizeIdToken(vcp, idToken);
+  return (
+    !!idTokenInfo.groupIdToken &&
+    idTokenKey(idTokenInfo.groupIdToken) === transaction.groupIdToken
+  );
+};
+
+// Stops the transaction an idToken presented at the charger may stop, on the
+// given EVSE or else on any, with a TransactionEvent Ended (StopAuthorized).
+// Returns whether a transaction was stopped.
+export const stopAuthorizedTransaction = async (
+  vcp: VCP,
+  idToken: IdToken,
+  evseId?: number,
+): Promise<boolean> => {
+  const transactions = Array.from(
+    vcp.transactionManager.transactions.values(),
+  ).filter(
+    (transaction) =>
+      evseId === undefined || (transaction.evseId ?? 1) === evseId,
+  );
+  for (const transaction of transactions) {
+    if (!(await authorizeStop(vcp, transaction, idToken))) {
+      continue;
+    }
+    const { transactionId, connectorId } = transaction;
+    const transactionEvseId = transaction.evseId ?? 1;
+    const meterValue = sampleMeterValue(
+      simulateMeterReading(
+        { meterValue: vcp.transactionManager.getMeterValue(transactionId) },
+        false,
+      ),
+      ["Energy.Active.Import.Register"],
+      "Transaction.End",
+    );
+    logger.info(`${idToken.idToken} stops transaction ${transactionId}`);
+    vcp.send(
+      call("TransactionEvent", {
+        eventType: "Ended",
+        timestamp: new Date().toISOString(),
+        seqNo: 0,
+        triggerReason: "StopAuthorized",
+        transactionInfo: {
+          transactionId: String(transactionId),
+          stoppedReason: "Local",
+        },
+        idToken,
+        evse: { id: transactionEvseId, connectorId },
+        meterValue: meterValue && [toMeterValueType(meterValue)],
+      }),
+    );
+    vcp.connectors.handle(transactionEvseId, "TransactionStopped");
+    vcp.transactionManager.stopTransaction(vcp, transactionId);
+    return true;
+  }
+  return false;
+};
+
+// AuthCtrlr, AuthCacheCtrlr and LocalAuthListCtrlr variables of OCPP 2.x,
+// backed by the charger config and the local authorization state
+export const getAuthorizationVariable = (
+  vcp: VCP,
+  component: string,
+  variable: string,
+): string | undefined => {
+  const { localAuthorization } = vcp;
+  switch (`${component}.${variable}`) {
+    case "AuthCtrlr.Enabled":
+      return "true";
+    case "AuthCtrlr.AuthorizeRemoteStart":
+      return String(vcp.config.authorizeRemoteTxRequests ?? false);
+    case "AuthCtrlr.LocalAuthorizeOffline":
+      return String(vcp.config.localAuthorizeOffline ?? true);
+    case "AuthCtrlr.LocalPreAuthorize":
+      return String(vcp.config.localPreAuthorize ?? false);
+    case "AuthCacheCtrlr.Available":
+    case "LocalAuthListCtrlr.Available":
+      return "true";
+    case "AuthCacheCtrlr.Enabled":
+      return String(vcp.config.authCacheEnabled ?? true);
+    case "AuthCacheCtrlr.LifeTime":
+      return String(vcp.config.authCacheLifeTime ?? 0);
+    case "AuthCacheCtrlr.Policy":
+      return vcp.config.authCachePolicy ?? "LRU";
+    case "AuthCacheCtrlr.Storage":
+      return String(localAuthorization.cacheStorageBytes);
+    case "LocalAuthListCtrlr.Enabled":
+      return String(vcp.config.localAuthListEnabled ?? true);
+    case "LocalAuthListCtrlr.Entries":
+      return String(localAuthorization.listSize);
+    case "LocalAuthListCtrlr.ItemsPerMessage":
+      return String(LOCAL_AUTH_LIST_ITEMS_PER_MESSAGE);
+    case "LocalAuthListCtrlr.BytesPerMessage":
+      return String(LOCAL_AUTH_LIST_BYTES_PER_MESSAGE);
+    case "LocalAuthListCtrlr.Storage":
+      return String(localAuthorization.listStorageBytes);
+    default:
+      return undefined;
+  }
+};
+
+export const setAuthorizationVariable = (
+  vcp: VCP,
+  component: string,
+  variable: string,
+  value: string,
+): "Accepted" | "Rejected" | "UnknownVariable" => {
+  const name = `${component}.${variable}`;
+  const booleanKey = BOOLEAN_VARIABLES[name];
+  if (booleanKey) {
+    if (value !== "true" && value !== "false") {
+      return "Rejected";
+    }
+    vcp.config[booleanKey] = value === "true";
+  } else if (name === "AuthCacheCtrlr.LifeTime") {
+    if (!/^\d+$/.test(value)) {
+      return "Rejected";
+    }
+    vcp.config.authCacheLifeTime = Number.parseInt(value, 10);
+  } else if (name === "AuthCacheCtrlr.Policy") {
+    if (!AUTH_CACHE_POLICIES.includes(value as AuthCachePolicy)) {
+      return "Rejected";
+    }
+    vcp.config.authCachePolicy = value as AuthCachePolicy;
+  } else {
+    // Known variables are read-only, others unknown
+    return getAuthorizationVariable(vcp, component, variable) === undefined
+      ? "UnknownVariable"
+      : "Rejected";
+  }
+  vcp.emit("configurationChanged", name, value);
+  return "Accepted";
+};
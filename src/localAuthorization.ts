@@ -0,0 +1,308 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { z } from "zod";
+
+import { logger } from "./logger";
+import type { IdTagInfoSchema } from "./v16/messages/_common";
+import { authorizeOcppMessage } from "./v16/messages/authorize";
+import type { IdTokenInfoTypeSchema } from "./v21/messages/_common";
+import type { VCP } from "./vcp";
+
+const LOCAL_AUTHORIZATION_FILE = "local-authorization.json";
+
+export type IdTagInfo = z.infer<typeof IdTagInfoSchema>;
+export type IdTokenInfo = z.infer<typeof IdTokenInfoTypeSchema>;
+// idTagInfo (1.6) or idTokenInfo (2.x) of an entry
+export type AuthorizationInfo = IdTagInfo | IdTokenInfo;
+
+export type SendLocalListStatus =
+  | "Accepted"
+  | "Failed"
+  | "NotSupported"
+  | "VersionMismatch";
+
+export type AuthCachePolicy = "LRU" | "LFU" | "FIFO";
+
+export interface LocalListUpdate {
+  version: number;
+  updateType: "Full" | "Differential";
+  // Entries without info are removed by a differential update
+  entries: { key: string; info?: AuthorizationInfo | null }[];
+}
+
+interface LimitOptions {
+  maxListLength: number; // LocalAuthListMaxLength
+  maxUpdateLength: number; // SendLocalListMaxLength
+}
+
+export interface CacheOptions {
+  lifeTimeSec?: number; // Entries older than this are dropped, 0 never drops them
+  maxStorageBytes?: number; // Size above which entries are evicted
+  policy?: AuthCachePolicy; // Which entry is evicted first, default LRU
+}
+
+interface CacheEntry {
+  info: AuthorizationInfo;
+  cachedAt: number;
+  lastUsedAt: number;
+  uses: number;
+}
+
+interface PersistedState {
+  listVersion: number;
+  localList: Record<string, AuthorizationInfo>;
+  cache: Record<string, CacheEntry>;
+}
+
+// Expired entries are reported as Expired instead of their stored status
+const withExpiry = <Info extends AuthorizationInfo>(info: Info): Info => {
+  const { expiryDate, cacheExpiryDateTime } = info as IdTagInfo & IdTokenInfo;
+  const expiry = expiryDate ?? cacheExpiryDateTime;
+  if (info.status === "Accepted" && expiry && Date.parse(expiry) < Date.now()) {
+    return { ...info, status: "Expired" };
+  }
+  return info;
+};
+
+// Approximate storage of entries, as reported by the Storage variables
+const storageBytes = (entries: Map<string, unknown>): number =>
+  Array.from(entries.entries()).reduce(
+    (sum, [key, value]) => sum + key.length + JSON.stringify(value).length,
+    0,
+  );
+
+// Local Authorization List, installed by the CSMS with SendLocalList, and the
+// Authorization Cache, filled from the idTagInfo/idTokenInfo of CSMS
+// responses. Entries are keyed by the 1.6 idTag or the 2.x idTokenKey.
+export class LocalAuthorization {
+  private listVersion = 0;
+  private localList: Map<string, AuthorizationInfo> = new Map();
+  private cache: Map<string, CacheEntry> = new Map();
+  private filePath?: string;
+
+  constructor(stateDir?: string) {
+    if (stateDir) {
+      this.filePath = path.join(stateDir, LOCAL_AUTHORIZATION_FILE);
+      this.load();
+    }
+  }
+
+  get version(): number {
+    return this.listVersion;
+  }
+
+  get listSize(): number {
+    return this.localList.size;
+  }
+
+  get cacheSize(): number {
+    return this.cache.size;
+  }
+
+  get listStorageBytes(): number {
+    return storageBytes(this.localList);
+  }
+
+  get cacheStorageBytes(): number {
+    return storageBytes(this.cache);
+  }
+
+  updateList(
+    update: LocalListUpdate,
+    limits: LimitOptions,
+  ): Exclude<SendLocalListStatus, "NotSupported"> {
+    if (update.entries.length > limits.maxUpdateLength) {
+      return "Failed";
+    }
+    if (
+      update.updateType === "Differential" &&
+      update.version <= this.listVersion
+    ) {
+      return "VersionMismatch";
+    }
+    const localList: Map<string, AuthorizationInfo> =
+      update.updateType === "Full" ? new Map() : new Map(this.localList);
+    for (const { key, info } of update.entries) {
+      if (info) {
+        localList.set(key, info);
+      } else {
+        localList.delete(key);
+      }
+    }
+    if (localList.size > limits.maxListLength) {
+      return "Failed";
+    }
+    this.localList = localList;
+    this.listVersion = update.version;
+    this.persist();
+    return "Accepted";
+  }
+
+  getFromList<Info extends AuthorizationInfo>(key: string): Info | undefined {
+    const info = this.localList.get(key) as Info | undefined;
+    return info && withExpiry(info);
+  }
+
+  getFromCache<Info extends AuthorizationInfo>(
+    key: string,
+    options: CacheOptions = {},
+  ): Info | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (
+      options.lifeTimeSec &&
+      entry.cachedAt + options.lifeTimeSec * 1000 < Date.now()
+    ) {
+      this.cache.delete(key);
+      this.persist();
+      return undefined;
+    }
+    entry.lastUsedAt = Date.now();
+    entry.uses++;
+    return withExpiry(entry.info as Info);
+  }
+
+  updateCache(
+    key: string,
+    info: AuthorizationInfo,
+    options: CacheOptions = {},
+  ) {
+    const now = Date.now();
+    const existing = this.cache.get(key);
+    this.cache.set(key, {
+      info,
+      cachedAt: now,
+      lastUsedAt: now,
+      uses: existing ? existing.uses + 1 : 1,
+    });
+    this.evict(key, options);
+    this.persist();
+  }
+
+  clearCache() {
+    this.cache.clear();
+    this.persist();
+  }
+
+  // Evicts entries other than the one just cached until the cache fits
+  private evict(keep: string, options: CacheOptions) {
+    const { maxStorageBytes } = options;
+    if (!maxStorageBytes) {
+      return;
+    }
+    const rank = (entry: CacheEntry): number => {
+      switch (options.policy) {
+        case "LFU":
+          return entry.uses;
+        case "FIFO":
+          return entry.cachedAt;
+        default:
+          return entry.lastUsedAt;
+      }
+    };
+    while (this.cache.size > 1 && storageBytes(this.cache) > maxStorageBytes) {
+      const [evicted] = Array.from(this.cache.entries())
+        .filter(([key]) => key !== keep)
+        .sort(([, a], [, b]) => rank(a) - rank(b))[0];
+      this.cache.delete(evicted);
+    }
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const state: PersistedState = JSON.parse(
+        fs.readFileSync(this.filePath, "utf-8"),
+      );
+      this.listVersion = state.listVersion;
+      this.localList = new Map(Object.entries(state.localList));
+      this.cache = new Map(Object.entries(state.cache));
+    } catch (err) {
+      logger.error(
+        `Failed to load local authorization from ${this.filePath}`,
+        err,
+      );
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+    const state: PersistedState = {
+      listVersion: this.listVersion,
+      localList: Object.fromEntries(Array.from(this.localList.entries())),
+      cache: Object.fromEntries(Array.from(this.cache.entries())),
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(state, null, 2));
+  }
+}
+
+// idTagInfo of the local list or, failing that, of the authorization cache,
+// each only when enabled by its configuration key
+export const localIdTagInfo = (
+  vcp: VCP,
+  idTag: string,
+): IdTagInfo | undefined => {
+  const fromList = vcp.configuration.getBoolean("LocalAuthListEnabled")
+    ? vcp.localAuthorization.getFromList<IdTagInfo>(idTag)
+    : undefined;
+  if (fromList) {
+    return fromList;
+  }
+  return vcp.configuration.getBoolean("AuthorizationCacheEnabled")
+    ? vcp.localAuthorization.getFromCache<IdTagInfo>(idTag)
+    : undefined;
+};
+
+// Caches the idTagInfo a CSMS answered Authorize, StartTransaction or
+// StopTransaction with
+export const cacheIdTagInfo = (
+  vcp: VCP,
+  idTag: string,
+  idTagInfo: IdTagInfo | null | undefined,
+) => {
+  if (idTagInfo && vcp.configuration.getBoolean("AuthorizationCacheEnabled")) {
+    vcp.localAuthorization.updateCache(idTag, idTagInfo);
+  }
+};
+
+// Authorizes an idTag presented at the charger. Online, a locally accepted
+// idTag skips the Authorize when LocalPreAuthorize is set. Offline (or when
+// the CSMS does not answer), only locally accepted idTags are authorized and
+// only when LocalAuthorizeOffline is set.
+export const authorizeIdTag = async (
+  vcp: VCP,
+  idTag: string,
+): Promise<IdTagInfo> => {
+  const local = localIdTagInfo(vcp, idTag);
+  const locallyAccepted = local?.status === "Accepted";
+  if (
+    locallyAccepted &&
+    vcp.isConnected() &&
+    vcp.configuration.getBoolean("LocalPreAuthorize")
+  ) {
+    return local;
+  }
+  try {
+    const outcome = await vcp.call(authorizeOcppMessage.request({ idTag }));
+    if (!("errorCode" in outcome)) {
+      return outcome.payload.idTagInfo;
+    }
+    logger.warn(`Authorize of ${idTag} failed with ${outcome.errorCode}`);
+  } catch (err) {
+    logger.warn(`Authorizing ${idTag} locally: ${(err as Error).message}`);
+  }
+  if (
+    locallyAccepted &&
+    vcp.configuration.getBoolean("LocalAuthorizeOffline")
+  ) {
+    return local;
+  }
+  return { status: "Invalid" };
+};
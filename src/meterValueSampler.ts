@@ -0,0 +1,196 @@
+import type { z } from "zod";
+
+import type { ConfigurationStore } from "./configurationStore";
+import type { DeviceModel } from "./deviceModel";
+import type { TransactionState } from "./transactionManager";
+import type { MeterValueSchema } from "./v16/messages/_common";
+import type { MeterValueTypeSchema } from "./v201/messages/_common";
+
+type MeterValue = z.infer<typeof MeterValueSchema>;
+type MeterValueType = z.infer<typeof MeterValueTypeSchema>;
+type SampledValue = MeterValue["sampledValue"][number];
+type ReadingContext = NonNullable<SampledValue["context"]>;
+
+const PHASES = ["L1", "L2", "L3"] as const;
+
+// Electrical state of a connector at one point in time
+export interface MeterReading {
+  energyWh: number; // Energy.Active.Import.Register
+  offeredCurrentA: number;
+  currentA: number[]; // Per phase, starting with L1
+  voltageV: number[]; // Per phase, starting with L1
+  temperatureC?: number;
+  socPercent?: number;
+}
+
+const DEFAULT_OFFERED_CURRENT_A = 32;
+const NOMINAL_VOLTAGE_V = 230;
+// The car draws slightly less than offered, 31.2A of 32A
+const DRAW_RATIO = 0.975;
+
+// Average power drawn while charging at the offered current, the rate the
+// energy register of a transaction grows at (~7.2kW at 32A, none at 0A)
+export const simulatedPowerW = (
+  offeredCurrentA = DEFAULT_OFFERED_CURRENT_A,
+): number => Math.max(0, offeredCurrentA * DRAW_RATIO) * NOMINAL_VOLTAGE_V;
+
+// Simulates single-phase charging at the offered current (~7.4kW at 32A) on
+// a three-phase connection, with the register following the transaction's
+// meter value
+export const simulateMeterReading = (
+  transaction: Pick<TransactionState, "meterValue">,
+  charging = true,
+  offeredCurrentA = DEFAULT_OFFERED_CURRENT_A,
+): MeterReading => {
+  // Actual draw slightly below offered with small jitter
+  const drawCurrentA =
+    charging && offeredCurrentA > 0
+      ? Math.max(0, offeredCurrentA * DRAW_RATIO + (Math.random() * 0.4 - 0.2))
+      : 0;
+  return {
+    energyWh: transaction.meterValue,
+    offeredCurrentA,
+    currentA: [drawCurrentA, 0, 0],
+    voltageV: PHASES.map(() => NOMINAL_VOLTAGE_V + (Math.random() * 4 - 2)),
+    temperatureC: 20 + (Math.random() * 2 - 1),
+  };
+};
+
+const totalPowerW = (reading: MeterReading): number =>
+  reading.currentA.reduce(
+    (sum, currentA, i) => sum + currentA * (reading.voltageV[i] ?? 0),
+    0,
+  );
+
+// Sampled values of one measurand, one per phase for per-phase measurands.
+// Measurands the reading has no value for are skipped.
+const sampleMeasurand = (
+  reading: MeterReading,
+  measurand: string,
+  context: ReadingContext,
+): SampledValue[] => {
+  const perPhase = (values: number[], unit: "A" | "V"): SampledValue[] =>
+    values.map((value, i) => ({
+      value: value.toFixed(2),
+      measurand,
+      unit,
+      context,
+      location: "Outlet",
+      phase: PHASES[i],
+    })) as SampledValue[];
+  const single = (
+    value: number,
+    unit: SampledValue["unit"],
+    location: SampledValue["location"] = "Outlet",
+    digits = 2,
+  ): SampledValue[] =>
+    [
+      { value: value.toFixed(digits), measurand, unit, context, location },
+    ] as SampledValue[];
+
+  switch (measurand) {
+    case "Energy.Active.Import.Register":
+      return single(reading.energyWh / 1000, "kWh", "Outlet", 3);
+    case "Power.Active.Import":
+      return single(totalPowerW(reading), "W");
+    case "Power.Offered":
+      return single(
+        reading.offeredCurrentA *
+          reading.voltageV.reduce((sum, voltage) => sum + voltage, 0),
+        "W",
+      );
+    case "Current.Import":
+      return perPhase(reading.currentA, "A");
+    case "Current.Offered":
+      return single(reading.offeredCurrentA, "A");
+    case "Voltage":
+      return perPhase(reading.voltageV, "V");
+    case "Temperature":
+      return reading.temperatureC === undefined
+        ? []
+        : single(reading.temperatureC, "Celsius", "Body");
+    case "SoC":
+      return reading.socPercent === undefined
+        ? []
+        : single(reading.socPercent, "Percent", "EV", 0);
+    default:
+      return [];
+  }
+};
+
+// Builds a MeterValue with the given measurands, undefined if none of them
+// could be sampled (MeterValues require at least one sampled value)
+export const sampleMeterValue = (
+  reading: MeterReading,
+  measurands: string[],
+  context: ReadingContext,
+  timestamp: Date = new Date(),
+): MeterValue | undefined => {
+  const sampledValue = measurands.flatMap((measurand) =>
+    sampleMeasurand(reading, measurand, context),
+  );
+  if (sampledValue.length === 0) {
+    return undefined;
+  }
+  return {
+    timestamp: timestamp.toISOString(),
+    sampledValue: sampledValue as MeterValue["sampledValue"],
+  };
+};
+
+// OCPP 2.x sampled values carry numbers and a unitOfMeasure
+export const toMeterValueType = (meterValue: MeterValue): MeterValueType => ({
+  timestamp: meterValue.timestamp,
+  sampledValue: meterValue.sampledValue.map(
+    ({ value, unit, format, ...sampledValue }) => ({
+      ...sampledValue,
+      value: Number(value),
+      unitOfMeasure: { unit },
+    }),
+  ) as MeterValueType["sampledValue"],
+});
+
+// Measurands of the periodic TransactionEvents of OCPP 2.x
+export const txUpdatedMeasurands = (deviceModel: DeviceModel): string[] => {
+  const { value } = deviceModel.get(
+    { name: "SampledDataCtrlr" },
+    { name: "TxUpdatedMeasurands" },
+  );
+  return value ? value.split(",") : [];
+};
+
+// Measurands of a list key, capped at the length allowed by its MaxLength key
+export const configuredMeasurands = (
+  configuration: ConfigurationStore,
+  key:
+    | "MeterValuesSampledData"
+    | "MeterValuesAlignedData"
+    | "StopTxnSampledData",
+): string[] => {
+  const measurands = configuration.getList(key);
+  const maxLength = configuration.getInteger(`${key}MaxLength`);
+  return maxLength === undefined ? measurands : measurands.slice(0, maxLength);
+};
+
+// Transaction.Begin and Transaction.End samples of the StopTxnSampledData
+// measurands, for the transactionData of a StopTransaction
+export const stopTransactionData = (
+  configuration: ConfigurationStore,
+  transaction: Pick<TransactionState, "meterValue" | "startedAt">,
+  meterStart = 0,
+): MeterValue[] => {
+  const measurands = configuredMeasurands(configuration, "StopTxnSampledData");
+  return [
+    sampleMeterValue(
+      simulateMeterReading({ meterValue: meterStart }, false),
+      measurands,
+      "Transaction.Begin",
+      transaction.startedAt,
+    ),
+    sampleMeterValue(
+      simulateMeterReading(transaction, false),
+      measurands,
+      "Transaction.End",
+    ),
+  ].filter((meterValue): meterValue is MeterValue => meterValue !== undefined);
+};
@@ -0,0 +1,89 @@
+import type { z } from "zod";
+import type { OcppCallError } from "./ocppMessage";
+import { OcppVersion } from "./ocppVersion";
+
+export type OcppErrorCode =
+  | "FormatViolation"
+  | "GenericError"
+  | "InternalError"
+  | "MessageTypeNotSupported"
+  | "NotImplemented"
+  | "NotSupported"
+  | "OccurrenceConstraintViolation"
+  | "PropertyConstraintViolation"
+  | "ProtocolError"
+  | "RpcFrameworkError"
+  | "SecurityError"
+  | "TypeConstraintViolation";
+
+// OCPP 1.6 misspells two error codes and lacks the RPC framework codes of 2.x
+const OCPP_16_ERROR_CODES: Partial<Record<OcppErrorCode, string>> = {
+  FormatViolation: "FormationViolation",
+  OccurrenceConstraintViolation: "OccurenceConstraintViolation",
+  MessageTypeNotSupported: "ProtocolError",
+  RpcFrameworkError: "ProtocolError",
+};
+
+// Error reported back to the CSMS as a CallError
+export class OcppError extends Error {
+  constructor(
+    readonly errorCode: OcppErrorCode,
+    message: string,
+    readonly errorDetails: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "OcppError";
+  }
+
+  toCallError(
+    ocppVersion: OcppVersion,
+    messageId: string,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  ): OcppCallError<any> {
+    const errorCode =
+      ocppVersion === OcppVersion.OCPP_1_6
+        ? (OCPP_16_ERROR_CODES[this.errorCode] ?? this.errorCode)
+        : this.errorCode;
+    return {
+      messageId,
+      errorCode,
+      errorDescription: this.message,
+      errorDetails: this.errorDetails,
+    };
+  }
+}
+
+const errorCodeFromZodIssue = (issue: z.ZodIssue): OcppErrorCode => {
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined"
+        ? "OccurrenceConstraintViolation"
+        : "TypeConstraintViolation";
+    case "invalid_enum_value":
+    case "invalid_literal":
+    case "invalid_string":
+    case "invalid_date":
+    case "too_big":
+    case "too_small":
+    case "not_multiple_of":
+      return "PropertyConstraintViolation";
+    default:
+      return "FormatViolation";
+  }
+};
+
+export const ocppErrorFromZodIssues = (
+  action: string,
+  issues: z.ZodIssue[],
+): OcppError => {
+  return new OcppError(
+    errorCodeFromZodIssue(issues[0]),
+    `Invalid ${action} payload: ${issues[0].message}`,
+    {
+      issues: issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    },
+  );
+};
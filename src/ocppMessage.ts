@@ -43,6 +43,8 @@ export abstract class OcppBase<
         payload: payload,
         errors: JSON.stringify(parseResult.error.issues),
       });
+      // Keep the original payload, the schema could not parse it
+      return payload;
     }
     return parseResult.data;
   };
@@ -55,6 +57,8 @@ export abstract class OcppBase<
         payload: payload,
         errors: JSON.stringify(parseResult.error.issues),
       });
+      // Keep the original payload, the schema could not parse it
+      return payload;
     }
     return parseResult.data;
   };
@@ -6,21 +6,26 @@ import { messageHandlerV201 } from "./v201/messageHandler";
 import type { VCP } from "./vcp";
 
 // biome-ignore lint/suspicious/noExplicitAny: ocpp types
-export type CallHandler = (vcp: VCP, call: OcppCall<any>) => void;
+export type CallHandler = (vcp: VCP, call: OcppCall<any>) => Promise<void>;
 export type CallResultHandler = (
   vcp: VCP,
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   call: OcppCall<any>,
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   result: OcppCallResult<any>,
-) => void;
+) => Promise<void>;
 // biome-ignore lint/suspicious/noExplicitAny: ocpp types
 export type CallErrorHandler = (vcp: VCP, error: OcppCallError<any>) => void;
+// biome-ignore lint/suspicious/noExplicitAny: ocpp types
+export type SendHandler = (vcp: VCP, call: OcppCall<any>) => void;
 
 export interface OcppMessageHandler {
   handleCall: CallHandler;
   handleCallResult: CallResultHandler;
   handleCallError: CallErrorHandler;
+  // OCPP 2.1 only: unconfirmed SEND messages and CALLRESULTERROR replies
+  handleSend?: SendHandler;
+  handleCallResultError?: CallErrorHandler;
 }
 
 export const resolveMessageHandler = (
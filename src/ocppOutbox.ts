@@ -1,12 +1,26 @@
 import type { OcppCall } from "./ocppMessage";
 
-class OcppOutbox {
-  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
-  private queue: Map<string, OcppCall<any>> = new Map();
+// biome-ignore lint/suspicious/noExplicitAny: ocpp types
+export interface PendingCall extends OcppCall<any> {
+  sentAt: Date;
+}
+
+// Calls sent by a single VCP that are waiting for a CallResult or CallError
+export class OcppOutbox {
+  private queue: Map<string, PendingCall> = new Map();
+
+  get size(): number {
+    return this.queue.size;
+  }
 
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   enqueue(ocppCall: OcppCall<any>) {
-    this.queue.set(ocppCall.messageId, ocppCall);
+    this.queue.set(ocppCall.messageId, {
+      messageId: ocppCall.messageId,
+      action: ocppCall.action,
+      payload: ocppCall.payload,
+      sentAt: new Date(),
+    });
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
@@ -15,6 +29,16 @@ class OcppOutbox {
     this.queue.delete(messageId);
     return enqueuedCall;
   }
-}
 
-export const ocppOutbox = new OcppOutbox();
+  remove(messageId: string) {
+    this.queue.delete(messageId);
+  }
+
+  list(): PendingCall[] {
+    return Array.from(this.queue.values());
+  }
+
+  clear() {
+    this.queue.clear();
+  }
+}
@@ -0,0 +1,99 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { logger } from "./logger";
+import type { OcppCall } from "./ocppMessage";
+import { OcppVersion } from "./ocppVersion";
+
+const OFFLINE_QUEUE_FILE = "offline-queue.json";
+
+export const isTransactionMessage = (
+  ocppVersion: OcppVersion,
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  ocppCall: OcppCall<any>,
+): boolean => {
+  if (ocppVersion === OcppVersion.OCPP_1_6) {
+    if (ocppCall.action === "MeterValues") {
+      return ocppCall.payload.transactionId != null;
+    }
+    return ["StartTransaction", "StopTransaction"].includes(ocppCall.action);
+  }
+  return ocppCall.action === "TransactionEvent";
+};
+
+// Buffers transaction-related messages while the VCP is offline, so they can
+// be delivered in order once the CSMS accepted the next BootNotification. A
+// message is only removed once it was answered, so the persisted queue also
+// survives a restart during the replay.
+export class OfflineQueue {
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private queue: OcppCall<any>[] = [];
+  private filePath?: string;
+
+  constructor(
+    private ocppVersion: OcppVersion,
+    stateDir?: string,
+  ) {
+    if (stateDir) {
+      this.filePath = path.join(stateDir, OFFLINE_QUEUE_FILE);
+      this.load();
+    }
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  accepts(ocppCall: OcppCall<any>): boolean {
+    return isTransactionMessage(this.ocppVersion, ocppCall);
+  }
+
+  // Messages queued while connected only wait for the ones before them, and
+  // unanswered ones were sent while online, so neither is marked as offline
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  enqueue(ocppCall: OcppCall<any>, offline = true) {
+    if (offline && this.ocppVersion !== OcppVersion.OCPP_1_6) {
+      ocppCall.payload.offline = true;
+    }
+    this.queue.push(ocppCall);
+    this.persist();
+  }
+
+  // Oldest queued message, which stays queued until it was delivered
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  peek(): OcppCall<any> | undefined {
+    return this.queue[0];
+  }
+
+  has(messageId: string): boolean {
+    return this.queue.some((ocppCall) => ocppCall.messageId === messageId);
+  }
+
+  remove(messageId: string) {
+    this.queue = this.queue.filter(
+      (ocppCall) => ocppCall.messageId !== messageId,
+    );
+    this.persist();
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      this.queue = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+      logger.info(`Loaded ${this.queue.length} queued offline message(s)`);
+    } catch (err) {
+      logger.error(`Failed to load offline queue from ${this.filePath}`, err);
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.queue, null, 2));
+  }
+}
@@ -0,0 +1,68 @@
+import { OcppVersion } from "./ocppVersion";
+import type { ChargePointConfig } from "./vcp";
+
+export interface ReconnectOptions {
+  initialDelayMs?: number;
+  multiplier?: number;
+  jitterMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
+}
+
+export type ReconnectPolicy = Required<ReconnectOptions>;
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1_000,
+  multiplier: 2,
+  jitterMs: 1_000,
+  maxDelayMs: 60_000,
+  maxAttempts: Number.POSITIVE_INFINITY,
+};
+
+// OCPP 2.x (B10): wait RetryBackOffWaitMinimum plus a random part of
+// RetryBackOffRandomRange, doubling the wait RetryBackOffRepeatTimes times.
+// OCPP 1.6 does not define back-off variables, so only the options apply.
+const fromChargePointConfig = (
+  ocppVersion: OcppVersion,
+  config: ChargePointConfig,
+): ReconnectOptions => {
+  if (ocppVersion === OcppVersion.OCPP_1_6) {
+    return {};
+  }
+  const options: ReconnectOptions = {};
+  if (config.retryBackOffWaitMinimum !== undefined) {
+    options.initialDelayMs = config.retryBackOffWaitMinimum * 1000;
+  }
+  if (config.retryBackOffRandomRange !== undefined) {
+    options.jitterMs = config.retryBackOffRandomRange * 1000;
+  }
+  if (config.retryBackOffRepeatTimes !== undefined) {
+    options.maxDelayMs =
+      (options.initialDelayMs ?? DEFAULT_RECONNECT_POLICY.initialDelayMs) *
+      2 ** config.retryBackOffRepeatTimes;
+  }
+  return options;
+};
+
+export const resolveReconnectPolicy = (
+  ocppVersion: OcppVersion,
+  config: ChargePointConfig,
+  options: ReconnectOptions = {},
+): ReconnectPolicy => {
+  return {
+    ...DEFAULT_RECONNECT_POLICY,
+    ...fromChargePointConfig(ocppVersion, config),
+    ...options,
+  };
+};
+
+export const reconnectDelay = (
+  policy: ReconnectPolicy,
+  attempt: number,
+): number => {
+  const backOff = Math.min(
+    policy.initialDelayMs * policy.multiplier ** (attempt - 1),
+    policy.maxDelayMs,
+  );
+  return Math.round(backOff + Math.random() * policy.jitterMs);
+};
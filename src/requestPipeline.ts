@@ -0,0 +1,160 @@
+import { logger } from "./logger";
+import type { OcppCall, OcppCallError, OcppCallResult } from "./ocppMessage";
+
+// biome-ignore lint/suspicious/noExplicitAny: ocpp types
+export type CallOutcome = OcppCallResult<any> | OcppCallError<any>;
+
+export interface PendingRequest {
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  call: OcppCall<any>;
+  attempt: number;
+  resolve: (outcome: CallOutcome) => void;
+  reject: (error: Error) => void;
+}
+
+interface RequestPipelineOptions {
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  transmit: (ocppCall: OcppCall<any>) => void;
+  // Called when a transmitted call timed out and will not be retried
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  abandon: (ocppCall: OcppCall<any>) => void;
+  callTimeoutMs: number;
+  // Retry policy, applied to transaction-related messages only
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  isRetryable: (ocppCall: OcppCall<any>) => boolean;
+  maxAttempts: () => number;
+  retryIntervalMs: () => number;
+}
+
+// OCPP-J allows only one outstanding CALL per direction: the next CALL is
+// transmitted once the previous one was answered, failed or timed out.
+export class RequestPipeline {
+  private queue: PendingRequest[] = [];
+  private inFlight?: PendingRequest;
+  private timer?: NodeJS.Timeout;
+  private paused = true;
+
+  constructor(private options: RequestPipelineOptions) {}
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  enqueue(ocppCall: OcppCall<any>): Promise<CallOutcome> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ call: ocppCall, attempt: 0, resolve, reject });
+      this.next();
+    });
+  }
+
+  resume() {
+    this.paused = false;
+    this.next();
+  }
+
+  // Stops transmitting and hands back every request that was not answered yet
+  pause(): PendingRequest[] {
+    this.paused = true;
+    clearTimeout(this.timer);
+    const unanswered = this.inFlight
+      ? [this.inFlight, ...this.queue]
+      : this.queue;
+    this.inFlight = undefined;
+    this.queue = [];
+    return unanswered;
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  handleCallResult(result: OcppCallResult<any>) {
+    const request = this.inFlight;
+    if (!request || request.call.messageId !== result.messageId) {
+      return;
+    }
+    this.settle();
+    request.resolve(result);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  handleCallError(error: OcppCallError<any>) {
+    const request = this.inFlight;
+    if (!request || request.call.messageId !== error.messageId) {
+      return;
+    }
+    if (this.retry(request, `CallError ${error.errorCode}`)) {
+      return;
+    }
+    this.settle();
+    request.resolve(error);
+  }
+
+  // A CallResult that could not be handled fails its call, without retrying
+  handleInvalidResult(messageId: string, error: Error) {
+    const request = this.inFlight;
+    if (!request || request.call.messageId !== messageId) {
+      return;
+    }
+    this.settle();
+    request.reject(error);
+  }
+
+  private next() {
+    if (this.paused || this.inFlight) {
+      return;
+    }
+    const request = this.queue.shift();
+    if (!request) {
+      return;
+    }
+    this.inFlight = request;
+    this.transmit(request);
+  }
+
+  private transmit(request: PendingRequest) {
+    request.attempt++;
+    this.timer = setTimeout(
+      () => this.onTimeout(request),
+      this.options.callTimeoutMs,
+    );
+    try {
+      this.options.transmit(request.call);
+    } catch (err) {
+      this.settle();
+      request.reject(err as Error);
+    }
+  }
+
+  private onTimeout(request: PendingRequest) {
+    if (this.retry(request, "timeout")) {
+      return;
+    }
+    this.settle();
+    this.options.abandon(request.call);
+    request.reject(
+      new Error(
+        `${request.call.action} (${request.call.messageId}) was not answered within ${this.options.callTimeoutMs}ms`,
+      ),
+    );
+  }
+
+  private retry(request: PendingRequest, reason: string): boolean {
+    const maxAttempts = this.options.maxAttempts();
+    if (
+      !this.options.isRetryable(request.call) ||
+      request.attempt >= maxAttempts
+    ) {
+      return false;
+    }
+    // Wait the retry interval multiplied by the number of preceding attempts
+    const delayMs = this.options.retryIntervalMs() * request.attempt;
+    logger.warn(
+      `Retrying ${request.call.action} after ${reason} in ${delayMs}ms (attempt ${request.attempt + 1}/${maxAttempts})`,
+    );
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.transmit(request), delayMs);
+    return true;
+  }
+
+  private settle() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.inFlight = undefined;
+    this.next();
+  }
+}
@@ -0,0 +1,285 @@
+import { logger } from "./logger";
+import { OcppVersion } from "./ocppVersion";
+import { reservationStatusUpdateOcppOutgoing as reservationStatusUpdate21 } from "./v21/messages/reservationStatusUpdate";
+import { reservationStatusUpdateOcppOutgoing as reservationStatusUpdate201 } from "./v201/messages/reservationStatusUpdate";
+import type { VCP } from "./vcp";
+
+// setTimeout fires immediately for delays above ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Connector (1.6) or EVSE (2.x) statuses in which it is in use
+const OCCUPIED_STATUSES = [
+  "Preparing",
+  "Charging",
+  "SuspendedEV",
+  "SuspendedEVSE",
+  "Finishing",
+  "Occupied",
+];
+
+export type ReserveNowStatus =
+  | "Accepted"
+  | "Faulted"
+  | "Occupied"
+  | "Rejected"
+  | "Unavailable";
+
+export interface Reservation {
+  id: number;
+  connectorId: number; // 1.6 connector or 2.x EVSE, 0 reserves any of them
+  expiryDate: Date;
+  idTag: string; // 1.6 idTag or 2.x idTokenKey
+  parentIdTag?: string; // 1.6 parentIdTag or 2.x idTokenKey of the groupIdToken
+}
+
+// Result of checking a transaction start against the reservations
+export interface ReservationCheck {
+  allowed: boolean;
+  reservationId?: number; // Reservation the transaction consumes
+}
+
+// Reservations of connectors (1.6) or EVSEs (2.x) made with ReserveNow. A
+// reserved connector reports Reserved until the reservation expires, is
+// cancelled or is used to start a transaction.
+export class ReservationManager {
+  private reservations: Map<
+    number,
+    Reservation & { expiryTimer?: NodeJS.Timeout }
+  > = new Map();
+
+  constructor(
+    private vcp: VCP,
+    private ocppVersion: OcppVersion,
+  ) {
+    // A connector that fails or is taken out of service loses its reservation
+    vcp.on("messageSent", (message) => {
+      if (!("payload" in message) || message.action !== "StatusNotification") {
+        return;
+      }
+      const { connectorId, evseId, status, connectorStatus } = message.payload;
+      if (
+        (status ?? connectorStatus) !== "Faulted" &&
+        (status ?? connectorStatus) !== "Unavailable"
+      ) {
+        return;
+      }
+      const id = evseId ?? connectorId;
+      for (const reservation of this.list()) {
+        if (id === 0 || reservation.connectorId === id) {
+          this.remove(reservation.id, "Removed");
+        }
+      }
+    });
+  }
+
+  list(): Reservation[] {
+    return Array.from(this.reservations.values()).map(
+      ({ expiryTimer, ...reservation }) => reservation,
+    );
+  }
+
+  // Reservation of a connector, not counting those for connector 0
+  get(connectorId: number): Reservation | undefined {
+    return this.list().find(
+      (reservation) => reservation.connectorId === connectorId,
+    );
+  }
+
+  reserve(reservation: Reservation): ReserveNowStatus {
+    const { connectorId } = reservation;
+    if (
+      connectorId < 0 ||
+      connectorId > (this.vcp.config.numberOfConnectors ?? 1) ||
+      reservation.expiryDate.getTime() <= Date.now()
+    ) {
+      return "Rejected";
+    }
+    if (
+      connectorId === 0 &&
+      this.ocppVersion === OcppVersion.OCPP_1_6 &&
+      !this.vcp.configuration.getBoolean("ReserveConnectorZeroSupported")
+    ) {
+      return "Rejected";
+    }
+    // The same reservationId replaces the existing reservation
+    const existing = this.reservations.get(reservation.id);
+    if (existing) {
+      this.clear(existing.id);
+    }
+    const status =
+      connectorId === 0
+        ? this.anyConnectorStatus()
+        : this.connectorStatus(connectorId);
+    if (status !== "Accepted") {
+      if (existing) {
+        this.add(existing);
+      }
+      return status;
+    }
+    if (existing && existing.connectorId !== connectorId) {
+      this.sendStatus(existing.connectorId, "Available");
+    }
+    this.add(reservation);
+    this.sendStatus(connectorId, "Reserved");
+    return "Accepted";
+  }
+
+  cancel(reservationId: number): boolean {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      return false;
+    }
+    this.clear(reservationId);
+    this.sendStatus(reservation.connectorId, "Available");
+    return true;
+  }
+
+  // Whether idTag (with its parentIdTag) may start a transaction on a
+  // connector: its own reservation, or one of a connector that is not
+  // reserved and not needed for the connector 0 reservations of others
+  checkStart(
+    connectorId: number,
+    idTag: string,
+    parentIdTag?: string,
+  ): ReservationCheck {
+    const matches = (reservation: Reservation) =>
+      reservation.idTag === idTag ||
+      (!!reservation.parentIdTag && reservation.parentIdTag === parentIdTag);
+    const reservation = this.get(connectorId);
+    if (reservation) {
+      return matches(reservation)
+        ? { allowed: true, reservationId: reservation.id }
+        : { allowed: false };
+    }
+    const anyConnector = this.list().filter(
+      (reservation) => reservation.connectorId === 0,
+    );
+    const own = anyConnector.find(matches);
+    if (own) {
+      return { allowed: true, reservationId: own.id };
+    }
+    return { allowed: this.freeConnectors().length > anyConnector.length };
+  }
+
+  // Ends a reservation used to start a transaction
+  consume(reservationId: number) {
+    if (this.reservations.has(reservationId)) {
+      logger.info(`Reservation ${reservationId} used`);
+      this.clear(reservationId);
+    }
+  }
+
+  private add(reservation: Reservation) {
+    const stored: Reservation & { expiryTimer?: NodeJS.Timeout } = {
+      ...reservation,
+    };
+    this.reservations.set(reservation.id, stored);
+    this.scheduleExpiry(stored);
+  }
+
+  private scheduleExpiry(
+    reservation: Reservation & { expiryTimer?: NodeJS.Timeout },
+  ) {
+    const delayMs = reservation.expiryDate.getTime() - Date.now();
+    reservation.expiryTimer = setTimeout(
+      () => {
+        if (reservation.expiryDate.getTime() > Date.now()) {
+          this.scheduleExpiry(reservation);
+          return;
+        }
+        logger.info(`Reservation ${reservation.id} expired`);
+        this.remove(reservation.id, "Expired");
+      },
+      Math.min(Math.max(delayMs, 0), MAX_TIMER_DELAY_MS),
+    );
+  }
+
+  private clear(reservationId: number) {
+    clearTimeout(this.reservations.get(reservationId)?.expiryTimer);
+    this.reservations.delete(reservationId);
+  }
+
+  // Ends a reservation the CSMS did not ask to end, telling it on 2.x
+  private remove(reservationId: number, reason: "Expired" | "Removed") {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      return;
+    }
+    this.clear(reservationId);
+    if (reason === "Expired") {
+      this.sendStatus(reservation.connectorId, "Available");
+    }
+    if (this.ocppVersion === OcppVersion.OCPP_1_6) {
+      return;
+    }
+    const reservationStatusUpdate =
+      this.ocppVersion === OcppVersion.OCPP_2_1
+        ? reservationStatusUpdate21
+        : reservationStatusUpdate201;
+    this.vcp.send(
+      reservationStatusUpdate.request({
+        reservationId,
+        reservationUpdateStatus: reason,
+      }),
+    );
+  }
+
+  private connectorStatus(connectorId: number): ReserveNowStatus {
+    const status = this.vcp.connectors.status(connectorId);
+    if (status === "Faulted" || status === "Unavailable") {
+      return status;
+    }
+    if (
+      OCCUPIED_STATUSES.includes(status) ||
+      this.vcp.transactionManager.getActiveTransaction(connectorId) ||
+      this.get(connectorId)
+    ) {
+      return "Occupied";
+    }
+    return "Accepted";
+  }
+
+  // Connector 0 reservations need a connector left for each of them
+  private anyConnectorStatus(): ReserveNowStatus {
+    const anyConnector = this.list().filter(
+      (reservation) => reservation.connectorId === 0,
+    );
+    if (this.freeConnectors().length > anyConnector.length) {
+      return "Accepted";
+    }
+    const statuses = this.connectorIds().map((connectorId) =>
+      this.connectorStatus(connectorId),
+    );
+    if (statuses.every((status) => status === "Faulted")) {
+      return "Faulted";
+    }
+    if (statuses.every((status) => status === "Unavailable")) {
+      return "Unavailable";
+    }
+    return "Occupied";
+  }
+
+  private freeConnectors(): number[] {
+    return this.connectorIds().filter(
+      (connectorId) => this.connectorStatus(connectorId) === "Accepted",
+    );
+  }
+
+  private connectorIds(): number[] {
+    return Array.from(
+      { length: this.vcp.config.numberOfConnectors ?? 1 },
+      (_, i) => i + 1,
+    );
+  }
+
+  private sendStatus(connectorId: number, status: "Available" | "Reserved") {
+    if (connectorId === 0) {
+      return;
+    }
+    if (status === "Reserved") {
+      this.vcp.connectors.handle(connectorId, "Reserved");
+    } else if (this.vcp.connectors.status(connectorId) === "Reserved") {
+      this.vcp.connectors.handle(connectorId, "ReservationEnded");
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import type { z } from "zod";
 import { logger } from "./logger";
 import { OcppVersion } from "./ocppVersion";
 import {
@@ -13,7 +14,17 @@ import {
   ocppOutgoingMessages as ocppOutgoingMessages201,
 } from "./v201/messageHandler";
 
-const SCHEMA_VALIDATION_ENABLED = true;
+// off: skip validation, warn: log and count violations, strict: additionally
+// reject invalid CSMS requests with a CallError and skip invalid responses
+export type ValidationMode = "off" | "warn" | "strict";
+
+export interface ValidationViolation {
+  action: string;
+  messageId: string;
+  // "request" for CALLs from the CSMS, "response" for its CallResults
+  kind: "request" | "response";
+  issues: z.ZodIssue[];
+}
 
 const getOcppIncomingMessages = (ocppVersion: OcppVersion) => {
   switch (ocppVersion) {
@@ -41,74 +52,121 @@ const getOcppOutgoingMessages = (ocppVersion: OcppVersion) => {
   }
 };
 
-export const validateOcppIncomingRequest = (
-  ocppVersion: OcppVersion,
-  action: string,
-  // biome-ignore lint/suspicious/noExplicitAny: ocpp message
-  payload: any,
-) => {
-  if (!SCHEMA_VALIDATION_ENABLED) {
-    return;
-  }
-  const ocppMessages = getOcppIncomingMessages(ocppVersion);
-  const ocppMessage = ocppMessages[action];
-  if (!ocppMessage) {
-    logger.warn(`Unknown incoming request action ${action}`);
-    return;
+// Validates the messages of a single VCP and counts violations per action
+export class SchemaValidator {
+  private violations: Map<string, number> = new Map();
+
+  constructor(
+    private ocppVersion: OcppVersion,
+    readonly mode: ValidationMode,
+  ) {}
+
+  getViolationCounts(): Record<string, number> {
+    return Object.fromEntries(Array.from(this.violations.entries()));
   }
-  ocppMessage.parseRequestPayload(payload);
-};
 
-export const validateOcppIncomingResponse = (
-  ocppVersion: OcppVersion,
-  action: string,
-  // biome-ignore lint/suspicious/noExplicitAny: ocpp message
-  payload: any,
-) => {
-  if (!SCHEMA_VALIDATION_ENABLED) {
-    return;
+  // Returns the issues of an invalid CALL received from the CSMS
+  validateIncomingRequest(
+    action: string,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp message
+    payload: any,
+  ): z.ZodIssue[] | undefined {
+    if (this.mode === "off") {
+      return undefined;
+    }
+    const ocppMessage = getOcppIncomingMessages(this.ocppVersion)[action];
+    if (!ocppMessage) {
+      logger.warn(`Unknown incoming request action ${action}`);
+      return undefined;
+    }
+    return this.check(action, ocppMessage.reqSchema, payload);
   }
-  const ocppMessages = getOcppIncomingMessages(ocppVersion);
-  const ocppMessage = ocppMessages[action];
-  if (!ocppMessage) {
-    logger.warn(`Unknown incoming response action ${action}`);
-    return;
+
+  // Returns the issues of an invalid CallResult received from the CSMS
+  validateOutgoingResponse(
+    action: string,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp message
+    payload: any,
+  ): z.ZodIssue[] | undefined {
+    if (this.mode === "off") {
+      return undefined;
+    }
+    const ocppMessage = getOcppOutgoingMessages(this.ocppVersion)[action];
+    if (!ocppMessage) {
+      logger.warn(`Unknown outgoing response action ${action}`);
+      return undefined;
+    }
+    return this.check(action, ocppMessage.resSchema, payload);
   }
-  ocppMessage.parseResponsePayload(payload);
-};
 
-export const validateOcppOutgoingRequest = (
-  ocppVersion: OcppVersion,
-  action: string,
-  // biome-ignore lint/suspicious/noExplicitAny: ocpp message
-  payload: any,
-) => {
-  if (!SCHEMA_VALIDATION_ENABLED) {
-    return;
+  // Returns the issues of an invalid message sent by the VCP itself
+  validateIncomingResponse(
+    action: string,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp message
+    payload: any,
+  ): z.ZodIssue[] | undefined {
+    if (this.mode === "off") {
+      return undefined;
+    }
+    const ocppMessage = getOcppIncomingMessages(this.ocppVersion)[action];
+    if (!ocppMessage) {
+      logger.warn(`Unknown incoming response action ${action}`);
+      return undefined;
+    }
+    return this.checkSent("RESPONSE", action, ocppMessage.resSchema, payload);
   }
-  const ocppMessages = getOcppOutgoingMessages(ocppVersion);
-  const ocppMessage = ocppMessages[action];
-  if (!ocppMessage) {
-    logger.warn(`Unknown outgoing request action ${action}`);
-    return;
+
+  // Returns the issues of an invalid message sent by the VCP itself
+  validateOutgoingRequest(
+    action: string,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp message
+    payload: any,
+  ): z.ZodIssue[] | undefined {
+    if (this.mode === "off") {
+      return undefined;
+    }
+    const ocppMessage = getOcppOutgoingMessages(this.ocppVersion)[action];
+    if (!ocppMessage) {
+      logger.warn(`Unknown outgoing request action ${action}`);
+      return undefined;
+    }
+    return this.checkSent("REQUEST", action, ocppMessage.reqSchema, payload);
   }
-  ocppMessage.parseRequestPayload(payload);
-};
 
-export const validateOcppOutgoingResponse = (
-  ocppVersion: OcppVersion,
-  action: string,
-  // biome-ignore lint/suspicious/noExplicitAny: ocpp message
-  payload: any,
-) => {
-  if (!SCHEMA_VALIDATION_ENABLED) {
-    return;
+  // Messages of the VCP itself are logged, but not counted as violations
+  private checkSent(
+    kind: "REQUEST" | "RESPONSE",
+    action: string,
+    schema: z.ZodTypeAny,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp message
+    payload: any,
+  ): z.ZodIssue[] | undefined {
+    const issues = schema.safeParse(payload).error?.issues;
+    if (issues) {
+      logger.warn(`${kind} payload parsing errors`, {
+        action,
+        payload,
+        errors: JSON.stringify(issues),
+      });
+    }
+    return issues;
   }
-  const ocppMessages = getOcppOutgoingMessages(ocppVersion);
-  const ocppMessage = ocppMessages[action];
-  if (!ocppMessage) {
-    logger.warn(`Unknown outgoing response action ${action}`);
-    return;
+
+  private check(
+    action: string,
+    schema: z.ZodTypeAny,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp message
+    payload: any,
+  ): z.ZodIssue[] | undefined {
+    const parseResult = schema.safeParse(payload);
+    if (parseResult.success) {
+      return undefined;
+    }
+    this.violations.set(action, (this.violations.get(action) ?? 0) + 1);
+    logger.warn(`${action} payload violates the schema`, {
+      payload,
+      errors: JSON.stringify(parseResult.error.issues),
+    });
+    return parseResult.error.issues;
   }
-  ocppMessage.parseResponsePayload(payload);
-};
+}
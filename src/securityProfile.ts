@@ -0,0 +1,41 @@
+import * as fs from "node:fs";
+import type { ClientOptions } from "ws";
+
+export interface TlsOptions {
+  ca?: string; // Path to the CA bundle used to verify the CSMS certificate
+  rejectUnauthorized?: boolean; // Verify the CSMS certificate, default true when a CA is set
+  cert?: string; // Path to the client certificate (Security Profile 3)
+  key?: string; // Path to the client certificate's private key
+  passphrase?: string;
+}
+
+// OCPP security profiles: 1 = Basic auth, 2 = TLS + Basic auth,
+// 3 = TLS with client certificate. 0 means no security at all.
+export type SecurityProfile = 0 | 1 | 2 | 3;
+
+export const resolveSecurityProfile = (
+  endpoint: string,
+  basicAuthPassword?: string,
+  tls?: TlsOptions,
+): SecurityProfile => {
+  if (!endpoint.startsWith("wss://")) {
+    return basicAuthPassword ? 1 : 0;
+  }
+  if (tls?.cert && tls.key) {
+    return 3;
+  }
+  return 2;
+};
+
+export const buildTlsClientOptions = (tls: TlsOptions = {}): ClientOptions => {
+  if ((tls.cert && !tls.key) || (!tls.cert && tls.key)) {
+    throw new Error("TLS client certificate and key must be set together");
+  }
+  return {
+    rejectUnauthorized: tls.rejectUnauthorized ?? tls.ca !== undefined,
+    ...(tls.ca && { ca: fs.readFileSync(tls.ca) }),
+    ...(tls.cert && { cert: fs.readFileSync(tls.cert) }),
+    ...(tls.key && { key: fs.readFileSync(tls.key) }),
+    ...(tls.passphrase && { passphrase: tls.passphrase }),
+  };
+};
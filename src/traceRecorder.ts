@@ -0,0 +1,99 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { z } from "zod";
+
+import { logger } from "./logger";
+
+export interface TraceEntry {
+  timestamp: string;
+  direction: "in" | "out";
+  messageType?: number; // 2 CALL, 3 CALLRESULT, 4 CALLERROR, 5 CALLRESULTERROR, 6 SEND
+  messageId?: string;
+  action?: string;
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  payload?: any;
+  errorCode?: string;
+  errorDescription?: string;
+  validationErrors?: { path: string; message: string }[];
+  latencyMs?: number; // Time between a CALL and the message answering it
+  raw?: string; // Frames that could not be parsed
+}
+
+interface OpenCall {
+  action: string;
+  sentAt: number;
+}
+
+// Appends every frame a VCP sends or receives to a JSONL file, one entry per
+// line, so traces can be attached to bug reports or fed to replay tooling.
+export class TraceRecorder {
+  // CALLs in either direction waiting for their answer, to compute latency
+  private openCalls: Map<string, OpenCall> = new Map();
+
+  constructor(readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  record(
+    direction: TraceEntry["direction"],
+    frame: unknown[],
+    validationErrors?: z.ZodIssue[],
+  ) {
+    const [messageType, messageId, ...rest] = frame;
+    const entry: TraceEntry = {
+      timestamp: new Date().toISOString(),
+      direction,
+      messageType: messageType as number,
+      messageId: messageId as string,
+    };
+    if (messageType === 2 || messageType === 6) {
+      const [action, payload] = rest;
+      entry.action = action as string;
+      entry.payload = payload;
+      if (messageType === 2) {
+        this.openCalls.set(`${direction}:${entry.messageId}`, {
+          action: entry.action,
+          sentAt: Date.now(),
+        });
+      }
+    } else {
+      // Answers travel in the opposite direction of the CALL
+      const callDirection = direction === "in" ? "out" : "in";
+      const openCall = this.openCalls.get(
+        `${callDirection}:${entry.messageId}`,
+      );
+      if (openCall && messageType !== 5) {
+        this.openCalls.delete(`${callDirection}:${entry.messageId}`);
+        entry.action = openCall.action;
+        entry.latencyMs = Date.now() - openCall.sentAt;
+      }
+      if (messageType === 3) {
+        entry.payload = rest[0];
+      } else {
+        const [errorCode, errorDescription, errorDetails] = rest;
+        entry.errorCode = errorCode as string;
+        entry.errorDescription = errorDescription as string;
+        entry.payload = errorDetails;
+      }
+    }
+    if (validationErrors) {
+      entry.validationErrors = validationErrors.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      }));
+    }
+    this.write(entry);
+  }
+
+  recordMalformed(raw: string) {
+    this.write({ timestamp: new Date().toISOString(), direction: "in", raw });
+  }
+
+  private write(entry: TraceEntry) {
+    try {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    } catch (err) {
+      logger.error(`Failed to write trace to ${this.filePath}`, err);
+    }
+  }
+}
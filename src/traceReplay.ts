@@ -0,0 +1,227 @@
+import * as fs from "node:fs";
+
+import { logger } from "./logger";
+import { call } from "./messageFactory";
+import type { TraceEntry } from "./traceRecorder";
+import type { TransactionState } from "./transactionManager";
+import { delay } from "./utils";
+import type { VCP } from "./vcp";
+
+export interface ReplayOptions {
+  // 1 replays with the recorded timing, 10 ten times faster, 0 without delays
+  speed?: number;
+  maxDelayMs?: number; // Upper bound for a single wait between two CALLs
+  skipActions?: string[]; // e.g. Heartbeat, the VCP sends its own
+}
+
+export interface ReplayDivergence {
+  action: string;
+  recordedMessageId: string;
+  path: string;
+  recorded: unknown;
+  actual: unknown;
+}
+
+export interface ReplayReport {
+  sent: number;
+  skipped: number;
+  divergences: ReplayDivergence[];
+}
+
+const ISO_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Values the CSMS is expected to change between runs, not reported as divergences
+const VOLATILE_KEYS = ["currentTime", "timestamp", "transactionId"];
+
+export const loadTrace = (filePath: string): TraceEntry[] => {
+  return fs
+    .readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line));
+};
+
+// Re-sends the charger-originated CALLs of a recorded trace against a CSMS and
+// compares its answers with the recorded ones
+export class TraceReplayer {
+  // Transaction IDs assigned by the CSMS when recording, mapped to the new ones
+  private transactionIds: Map<string, unknown> = new Map();
+
+  constructor(
+    private vcp: VCP,
+    private entries: TraceEntry[],
+    private options: ReplayOptions = {},
+  ) {}
+
+  async run(): Promise<ReplayReport> {
+    const report: ReplayReport = { sent: 0, skipped: 0, divergences: [] };
+    // Stop the VCP's own periodic MeterValues, the trace contains the recorded
+    // ones. The transaction keeps running until its replayed stop.
+    const detachMeterValues = (transaction: TransactionState) =>
+      this.vcp.transactionManager.detachMeterValues(transaction.transactionId);
+    this.vcp.on("transactionStarted", detachMeterValues);
+
+    try {
+      let previousTimestamp: number | undefined;
+      for (const entry of this.entries) {
+        if (entry.direction !== "out" || entry.messageType !== 2) {
+          continue;
+        }
+        const action = entry.action as string;
+        if (this.options.skipActions?.includes(action)) {
+          report.skipped++;
+          continue;
+        }
+        const recordedAt = Date.parse(entry.timestamp);
+        if (previousTimestamp !== undefined) {
+          await delay(this.waitTime(recordedAt - previousTimestamp));
+        }
+        previousTimestamp = recordedAt;
+
+        const payload = this.rewrite(entry.payload, Date.now() - recordedAt);
+        logger.info(`Replaying ${action} (${entry.messageId})`);
+        report.sent++;
+        const recordedAnswer = this.findAnswer(entry.messageId as string);
+        try {
+          const outcome = await this.vcp.call(call(action, payload));
+          const actual =
+            "errorCode" in outcome
+              ? { messageType: 4, errorCode: outcome.errorCode }
+              : { messageType: 3, payload: outcome.payload };
+          if (recordedAnswer?.messageType === 3 && actual.messageType === 3) {
+            this.learnTransactionIds(recordedAnswer.payload, actual.payload);
+          }
+          this.diff(report, entry, recordedAnswer, actual);
+        } catch (err) {
+          this.diff(report, entry, recordedAnswer, {
+            error: (err as Error).message,
+          });
+        }
+      }
+    } finally {
+      this.vcp.off("transactionStarted", detachMeterValues);
+    }
+    return report;
+  }
+
+  private waitTime(recordedGapMs: number): number {
+    const speed = this.options.speed ?? 1;
+    if (speed <= 0) {
+      return 0;
+    }
+    return Math.min(
+      recordedGapMs / speed,
+      this.options.maxDelayMs ?? Number.POSITIVE_INFINITY,
+    );
+  }
+
+  private findAnswer(messageId: string): TraceEntry | undefined {
+    return this.entries.find(
+      (entry) =>
+        entry.direction === "in" &&
+        entry.messageId === messageId &&
+        (entry.messageType === 3 || entry.messageType === 4),
+    );
+  }
+
+  // Shifts timestamps to the time of replay and maps transaction IDs
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private rewrite(value: any, shiftMs: number, key?: string): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.rewrite(item, shiftMs));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.rewrite(v, shiftMs, k)]),
+      );
+    }
+    if (key === "transactionId" && this.transactionIds.has(String(value))) {
+      return this.transactionIds.get(String(value));
+    }
+    if (typeof value === "string" && ISO_DATE_TIME.test(value)) {
+      return new Date(Date.parse(value) + shiftMs).toISOString();
+    }
+    return value;
+  }
+
+  private learnTransactionIds(recorded: unknown, actual: unknown) {
+    if (
+      recorded === null ||
+      actual === null ||
+      typeof recorded !== "object" ||
+      typeof actual !== "object"
+    ) {
+      return;
+    }
+    for (const [key, recordedValue] of Object.entries(recorded)) {
+      const actualValue = (actual as Record<string, unknown>)[key];
+      if (key === "transactionId" && actualValue !== undefined) {
+        this.transactionIds.set(String(recordedValue), actualValue);
+      } else {
+        this.learnTransactionIds(recordedValue, actualValue);
+      }
+    }
+  }
+
+  private diff(
+    report: ReplayReport,
+    entry: TraceEntry,
+    recordedAnswer: TraceEntry | undefined,
+    actual: Record<string, unknown>,
+  ) {
+    const recorded = recordedAnswer
+      ? recordedAnswer.messageType === 4
+        ? { messageType: 4, errorCode: recordedAnswer.errorCode }
+        : { messageType: 3, payload: recordedAnswer.payload }
+      : { error: "No answer recorded" };
+    const divergences: ReplayDivergence[] = [];
+    this.compare(recorded, actual, "", (path, recordedValue, actualValue) =>
+      divergences.push({
+        action: entry.action as string,
+        recordedMessageId: entry.messageId as string,
+        path,
+        recorded: recordedValue,
+        actual: actualValue,
+      }),
+    );
+    for (const divergence of divergences) {
+      logger.warn(
+        `Replay divergence in ${divergence.action} at ${divergence.path}: recorded ${JSON.stringify(divergence.recorded)}, got ${JSON.stringify(divergence.actual)}`,
+      );
+    }
+    report.divergences.push(...divergences);
+  }
+
+  private compare(
+    recorded: unknown,
+    actual: unknown,
+    path: string,
+    onDivergence: (path: string, recorded: unknown, actual: unknown) => void,
+  ) {
+    const key = path.split(".").pop() as string;
+    if (VOLATILE_KEYS.includes(key)) {
+      return;
+    }
+    if (
+      recorded !== null &&
+      actual !== null &&
+      typeof recorded === "object" &&
+      typeof actual === "object"
+    ) {
+      const keys = new Set([...Object.keys(recorded), ...Object.keys(actual)]);
+      for (const childKey of Array.from(keys)) {
+        this.compare(
+          (recorded as Record<string, unknown>)[childKey],
+          (actual as Record<string, unknown>)[childKey],
+          path ? `${path}.${childKey}` : childKey,
+          onDivergence,
+        );
+      }
+      return;
+    }
+    if (recorded !== actual) {
+      onDivergence(path, recorded, actual);
+    }
+  }
+}
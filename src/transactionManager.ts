@@ -1,12 +1,14 @@
+import { simulatedPowerW } from "./meterValueSampler";
 import type { VCP } from "./vcp";
 
-const METER_VALUES_INTERVAL_SEC = 15;
+const DEFAULT_METER_VALUES_INTERVAL_SEC = 15;
 
 type TransactionId = string | number;
 
-interface TransactionState {
+export interface TransactionState {
   startedAt: Date;
   idTag: string;
+  groupIdToken?: string; // OCPP 2.x idTokenKey of the starting idToken's group
   transactionId: TransactionId;
   meterValue: number;
   evseId?: number;
@@ -16,16 +18,41 @@ interface TransactionState {
 interface StartTransactionProps {
   transactionId: TransactionId;
   idTag: string;
+  groupIdToken?: string;
   evseId?: number;
   connectorId: number;
-  meterValuesCallback: (transactionState: TransactionState) => Promise<void>;
+  meterValuesCallback: MeterValuesCallback;
+}
+
+type MeterValuesCallback = (
+  transactionState: TransactionState,
+) => Promise<void>;
+
+// Energy charged in a transaction up to a time, and the current offered since
+interface TransactionEnergy {
+  energyWh: number;
+  since: Date;
+  offeredCurrentA?: number; // The simulation's default until a limit applies
 }
 
 export class TransactionManager {
   transactions: Map<
     TransactionId,
-    TransactionState & { meterValuesTimer: NodeJS.Timer }
+    TransactionState & { meterValuesTimer?: NodeJS.Timeout }
   > = new Map();
+  private meterValuesCallbacks: Map<TransactionId, MeterValuesCallback> =
+    new Map();
+  // Energy of finished transactions per connector (1.6) or EVSE (2.x), in Wh
+  private registers: Map<number, number> = new Map();
+  private energy: Map<TransactionId, TransactionEnergy> = new Map();
+  // Offered current per connector (1.6) or EVSE (2.x) set by its charging limit
+  private offeredCurrents: Map<number, number> = new Map();
+
+  // Seconds between periodic MeterValues of a transaction, 0 disables them
+  constructor(
+    private meterValuesIntervalSec: () => number = () =>
+      DEFAULT_METER_VALUES_INTERVAL_SEC,
+  ) {}
 
   canStartNewTransaction(connectorId: number) {
     return !Array.from(this.transactions.values()).some(
@@ -34,42 +61,146 @@ export class TransactionManager {
   }
 
   startTransaction(vcp: VCP, startTransactionProps: StartTransactionProps) {
-    const meterValuesTimer = setInterval(() => {
-      // biome-ignore lint/style/noNonNullAssertion: transaction must exist
-      const currentTransactionState = this.transactions.get(
-        startTransactionProps.transactionId,
-      )!;
-      const { meterValuesTimer, ...currentTransaction } =
-        currentTransactionState;
-      startTransactionProps.meterValuesCallback({
-        ...currentTransaction,
-        meterValue: this.getMeterValue(startTransactionProps.transactionId),
-      });
-    }, METER_VALUES_INTERVAL_SEC * 1000);
-    this.transactions.set(startTransactionProps.transactionId, {
+    const transactionState: TransactionState = {
       transactionId: startTransactionProps.transactionId,
       idTag: startTransactionProps.idTag,
+      groupIdToken: startTransactionProps.groupIdToken,
       meterValue: 0,
       startedAt: new Date(),
       evseId: startTransactionProps.evseId,
       connectorId: startTransactionProps.connectorId,
-      meterValuesTimer: meterValuesTimer,
+    };
+    this.transactions.set(startTransactionProps.transactionId, {
+      ...transactionState,
     });
+    this.energy.set(startTransactionProps.transactionId, {
+      energyWh: 0,
+      since: transactionState.startedAt,
+      offeredCurrentA: this.offeredCurrents.get(
+        startTransactionProps.evseId ?? startTransactionProps.connectorId,
+      ),
+    });
+    this.meterValuesCallbacks.set(
+      startTransactionProps.transactionId,
+      startTransactionProps.meterValuesCallback,
+    );
+    this.scheduleMeterValues(startTransactionProps.transactionId);
+    vcp.emit("transactionStarted", transactionState);
   }
 
-  stopTransaction(transactionId: TransactionId) {
+  stopTransaction(vcp: VCP, transactionId: TransactionId) {
     const transaction = this.transactions.get(transactionId);
-    if (transaction?.meterValuesTimer) {
-      clearInterval(transaction.meterValuesTimer);
+    if (!transaction) {
+      return;
     }
+    const { meterValuesTimer, ...transactionState } = transaction;
+    const meterValue = this.getMeterValue(transactionId);
+    clearInterval(meterValuesTimer);
+    const registerId = transactionState.evseId ?? transactionState.connectorId;
+    this.registers.set(
+      registerId,
+      (this.registers.get(registerId) ?? 0) + meterValue,
+    );
     this.transactions.delete(transactionId);
+    this.meterValuesCallbacks.delete(transactionId);
+    this.energy.delete(transactionId);
+    vcp.emit("transactionStopped", { ...transactionState, meterValue });
+  }
+
+  // Stops the periodic MeterValues of a transaction that keeps running, for
+  // callers sending their own
+  detachMeterValues(transactionId: TransactionId) {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) {
+      return;
+    }
+    clearInterval(transaction.meterValuesTimer);
+    transaction.meterValuesTimer = undefined;
+    this.meterValuesCallbacks.delete(transactionId);
+  }
+
+  // Restarts the MeterValues timers, e.g. after MeterValueSampleInterval changed
+  rescheduleMeterValues() {
+    for (const transactionId of Array.from(this.transactions.keys())) {
+      this.scheduleMeterValues(transactionId);
+    }
   }
 
-  getMeterValue(transactionId: TransactionId) {
+  private scheduleMeterValues(transactionId: TransactionId) {
     const transaction = this.transactions.get(transactionId);
+    const meterValuesCallback = this.meterValuesCallbacks.get(transactionId);
+    if (!transaction || !meterValuesCallback) {
+      return;
+    }
+    clearInterval(transaction.meterValuesTimer);
+    transaction.meterValuesTimer = undefined;
+    const intervalSec = this.meterValuesIntervalSec();
+    if (intervalSec <= 0) {
+      return;
+    }
+    transaction.meterValuesTimer = setInterval(() => {
+      // biome-ignore lint/style/noNonNullAssertion: transaction must exist
+      const currentTransactionState = this.transactions.get(transactionId)!;
+      const { meterValuesTimer, ...currentTransaction } =
+        currentTransactionState;
+      meterValuesCallback({
+        ...currentTransaction,
+        meterValue: this.getMeterValue(transactionId),
+      });
+    }, intervalSec * 1000);
+  }
+
+  // Transaction running on a connector (1.6) or EVSE (2.x)
+  getActiveTransaction(registerId: number): TransactionState | undefined {
+    const transaction = Array.from(this.transactions.values()).find(
+      (state) => (state.evseId ?? state.connectorId) === registerId,
+    );
     if (!transaction) {
+      return undefined;
+    }
+    const { meterValuesTimer, ...transactionState } = transaction;
+    return {
+      ...transactionState,
+      meterValue: this.getMeterValue(transaction.transactionId),
+    };
+  }
+
+  // Energy register of a connector (1.6) or EVSE (2.x) in Wh, including the
+  // running transaction
+  getRegister(registerId: number): number {
+    const transaction = this.getActiveTransaction(registerId);
+    return (
+      (this.registers.get(registerId) ?? 0) + (transaction?.meterValue ?? 0)
+    );
+  }
+
+  // Energy charged in the transaction so far in Wh, at the power drawn at
+  // each offered current
+  getMeterValue(transactionId: TransactionId, now = new Date()) {
+    const energy = this.energy.get(transactionId);
+    if (!energy) {
       return 0;
     }
-    return (new Date().getTime() - transaction.startedAt.getTime()) / 100;
+    const elapsedHours = (now.getTime() - energy.since.getTime()) / 3_600_000;
+    return (
+      energy.energyWh + elapsedHours * simulatedPowerW(energy.offeredCurrentA)
+    );
+  }
+
+  // Changes the current offered on a connector (1.6) or EVSE (2.x), the energy
+  // charged until now was drawn at the previous one
+  setOfferedCurrent(registerId: number, offeredCurrentA: number) {
+    this.offeredCurrents.set(registerId, offeredCurrentA);
+    const now = new Date();
+    for (const [transactionId, transaction] of Array.from(this.transactions)) {
+      if ((transaction.evseId ?? transaction.connectorId) !== registerId) {
+        continue;
+      }
+      this.energy.set(transactionId, {
+        energyWh: this.getMeterValue(transactionId, now),
+        since: now,
+        offeredCurrentA,
+      });
+    }
   }
 }
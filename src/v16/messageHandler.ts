@@ -1,4 +1,5 @@
 import type { z } from "zod";
+import { OcppError } from "../ocppError";
 import type {
   OcppCall,
   OcppCallError,
@@ -109,14 +110,16 @@ export const ocppOutgoingMessages: {
 
 export const messageHandlerV16: OcppMessageHandler = {
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
-  handleCall: (vcp: VCP, call: OcppCall<any>): void => {
+  handleCall: (vcp: VCP, call: OcppCall<any>): Promise<void> => {
     const ocppMessage = ocppIncomingMessages[call.action];
     if (!ocppMessage) {
-      throw new Error(
+      // Actions only the charger sends are known, but not accepted from the CSMS
+      throw new OcppError(
+        ocppOutgoingMessages[call.action] ? "NotSupported" : "NotImplemented",
         `OCPP Incoming Message not implemented for ${call.action}`,
       );
     }
-    ocppMessage.reqHandler(vcp, call);
+    return ocppMessage.reqHandler(vcp, call);
   },
   handleCallResult: (
     vcp: VCP,
@@ -124,14 +127,14 @@ export const messageHandlerV16: OcppMessageHandler = {
     call: OcppCall<any>,
     // biome-ignore lint/suspicious/noExplicitAny: ocpp types
     result: OcppCallResult<any>,
-  ): void => {
+  ): Promise<void> => {
     const ocppMessage = ocppOutgoingMessages[result.action];
     if (!ocppMessage) {
       throw new Error(
         `OCPP Outgoing Message not implemented for ${result.action}`,
       );
     }
-    ocppMessage.resHandler(vcp, call, result);
+    return ocppMessage.resHandler(vcp, call, result);
   },
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   handleCallError: (vcp: VCP, error: OcppCallError<any>): void => {
@@ -2,6 +2,25 @@ import { z } from "zod";
 
 export const ConnectorIdSchema = z.number().int().nonnegative();
 
+export const ChargePointErrorCodeSchema = z.enum([
+  "ConnectorLockFailure",
+  "EVCommunicationError",
+  "GroundFailure",
+  "HighTemperature",
+  "InternalError",
+  "LocalListConflict",
+  "NoError",
+  "OtherError",
+  "OverCurrentFailure",
+  "OverVoltage",
+  "PowerMeterFailure",
+  "PowerSwitchFailure",
+  "ReaderFailure",
+  "ResetFailure",
+  "UnderVoltage",
+  "WeakSignal",
+]);
+
 export const IdTokenSchema = z.string().max(36);
 
 export const IdTagInfoSchema = z.object({
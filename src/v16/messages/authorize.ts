@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { cacheIdTagInfo } from "../../localAuthorization";
 import {
   type OcppCall,
   type OcppCallResult,
@@ -22,11 +23,11 @@ class AuthorizeOcppMessage extends OcppOutgoing<
   AuthorizeResType
 > {
   resHandler = async (
-    _vcp: VCP,
-    _call: OcppCall<z.infer<AuthorizeReqType>>,
-    _result: OcppCallResult<z.infer<AuthorizeResType>>,
+    vcp: VCP,
+    call: OcppCall<z.infer<AuthorizeReqType>>,
+    result: OcppCallResult<z.infer<AuthorizeResType>>,
   ): Promise<void> => {
-    // NOOP
+    cacheIdTagInfo(vcp, call.payload.idTag, result.payload.idTagInfo);
   };
 }
 
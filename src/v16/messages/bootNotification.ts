@@ -35,6 +35,12 @@ class BootNotificationOcppMessage extends OcppOutgoing<
     _call: OcppCall<z.infer<BootNotificationReqType>>,
     result: OcppCallResult<z.infer<BootNotificationResType>>,
   ): Promise<void> => {
+    if (result.payload.status === "Accepted") {
+      vcp.configuration.set(
+        "HeartbeatInterval",
+        String(result.payload.interval),
+      );
+    }
     vcp.configureHeartbeat(result.payload.interval * 1000);
   };
 }
@@ -2,7 +2,6 @@ import { z } from "zod";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import { ConnectorIdSchema } from "./_common";
-import { statusNotificationOcppMessage } from "./statusNotification";
 
 const ChangeAvailabilityReqSchema = z.object({
   connectorId: ConnectorIdSchema,
@@ -23,16 +22,13 @@ class ChangeAvailabilityOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ChangeAvailabilityReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
-    if (call.payload.type === "Inoperative") {
-      vcp.send(
-        statusNotificationOcppMessage.request({
-          connectorId: call.payload.connectorId,
-          errorCode: "NoError",
-          status: "Unavailable",
-        }),
-      );
+    const { connectorId, type } = call.payload;
+    if (!vcp.connectors.canHandle(connectorId, type)) {
+      vcp.respond(this.response(call, { status: "Rejected" }));
+      return;
     }
+    vcp.respond(this.response(call, { status: "Accepted" }));
+    vcp.connectors.handle(connectorId, type);
   };
 }
 
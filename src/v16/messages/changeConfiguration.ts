@@ -21,7 +21,16 @@ class ChangeConfigurationOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ChangeConfigurationReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { key, value } = call.payload;
+    const status = vcp.configuration.change(key, value);
+    vcp.respond(this.response(call, { status }));
+    if (status === "Accepted") {
+      vcp.emit(
+        "configurationChanged",
+        key,
+        vcp.configuration.get(key) ?? value,
+      );
+    }
   };
 }
 
@@ -18,6 +18,7 @@ class ClearCacheOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ClearCacheReqType>>,
   ): Promise<void> => {
+    vcp.localAuthorization.clearCache();
     vcp.respond(this.response(call, { status: "Accepted" }));
   };
 }
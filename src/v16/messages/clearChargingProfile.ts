@@ -26,7 +26,21 @@ class ClearChargingProfileOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ClearChargingProfileReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { id, connectorId, chargingProfilePurpose, stackLevel } =
+      call.payload;
+    // An id identifies the profile, the other criteria are then ignored
+    const cleared = vcp.chargingProfiles.clear(
+      id != null
+        ? { id }
+        : {
+            connectorId: connectorId ?? undefined,
+            chargingProfilePurpose: chargingProfilePurpose ?? undefined,
+            stackLevel: stackLevel ?? undefined,
+          },
+    );
+    vcp.respond(
+      this.response(call, { status: cleared > 0 ? "Accepted" : "Unknown" }),
+    );
   };
 }
 
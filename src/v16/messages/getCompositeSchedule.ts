@@ -26,7 +26,31 @@ class GetCompositeScheduleOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetCompositeScheduleReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { connectorId, duration, chargingRateUnit } = call.payload;
+    const schedule = vcp.chargingProfiles.getCompositeSchedule(
+      connectorId,
+      duration,
+      chargingRateUnit ?? undefined,
+    );
+    if (!schedule) {
+      vcp.respond(this.response(call, { status: "Rejected" }));
+      return;
+    }
+    // A composite schedule always has a first period
+    const [firstPeriod, ...periods] = schedule.chargingSchedulePeriod;
+    vcp.respond(
+      this.response(call, {
+        status: "Accepted",
+        connectorId,
+        scheduleStart: schedule.scheduleStart,
+        chargingSchedule: {
+          duration: schedule.duration,
+          startSchedule: schedule.scheduleStart,
+          chargingRateUnit: schedule.chargingRateUnit,
+          chargingSchedulePeriod: [firstPeriod, ...periods],
+        },
+      }),
+    );
   };
 }
 
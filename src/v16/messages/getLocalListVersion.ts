@@ -18,7 +18,11 @@ class GetLocalListVersionOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetLocalListVersionReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { listVersion: 0 }));
+    // -1 tells the CSMS that the local list is disabled
+    const listVersion = vcp.configuration.getBoolean("LocalAuthListEnabled")
+      ? vcp.localAuthorization.version
+      : -1;
+    vcp.respond(this.response(call, { listVersion }));
   };
 }
 
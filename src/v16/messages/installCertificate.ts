@@ -24,7 +24,11 @@ class InstallCertificateOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<InstallCertificateReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Rejected" }));
+    const status = vcp.certificates.install(
+      call.payload.certificateType,
+      call.payload.certificate,
+    );
+    vcp.respond(this.response(call, { status }));
   };
 }
 
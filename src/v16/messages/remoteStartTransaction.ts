@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { localIdTagInfo } from "../../localAuthorization";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import {
@@ -7,7 +8,6 @@ import {
   IdTokenSchema,
 } from "./_common";
 import { startTransactionOcppMessage } from "./startTransaction";
-import { statusNotificationOcppMessage } from "./statusNotification";
 
 const RemoteStartTransactionReqSchema = z.object({
   connectorId: ConnectorIdSchema.nullish(),
@@ -34,27 +34,35 @@ class RemoteStartTransactionOcppMessage extends OcppIncoming<
       return;
     }
     if (
-      !vcp.transactionManager.canStartNewTransaction(call.payload.connectorId)
+      !vcp.transactionManager.canStartNewTransaction(
+        call.payload.connectorId,
+      ) ||
+      !vcp.connectors.canHandle(call.payload.connectorId, "TransactionStarted")
     ) {
       vcp.respond(this.response(call, { status: "Rejected" }));
       return;
     }
+    // A reserved connector only starts for its idTag or parentIdTag
+    const reservation = vcp.reservations.checkStart(
+      call.payload.connectorId,
+      call.payload.idTag,
+      localIdTagInfo(vcp, call.payload.idTag)?.parentIdTag ?? undefined,
+    );
+    if (!reservation.allowed) {
+      vcp.respond(this.response(call, { status: "Rejected" }));
+      return;
+    }
     vcp.respond(this.response(call, { status: "Accepted" }));
     vcp.send(
       startTransactionOcppMessage.request({
         connectorId: call.payload.connectorId,
         idTag: call.payload.idTag,
         meterStart: 0,
+        reservationId: reservation.reservationId,
         timestamp: new Date().toISOString(),
       }),
     );
-    vcp.send(
-      statusNotificationOcppMessage.request({
-        connectorId: call.payload.connectorId,
-        errorCode: "NoError",
-        status: "Charging",
-      }),
-    );
+    vcp.connectors.handle(call.payload.connectorId, "TransactionStarted");
   };
 }
 
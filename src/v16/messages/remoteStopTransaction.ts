@@ -1,8 +1,8 @@
 import { z } from "zod";
+import { stopTransactionData } from "../../meterValueSampler";
 import { generateOCMF, getOCMFPublicKey } from "../../ocmfGenerator";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
-import { statusNotificationOcppMessage } from "./statusNotification";
 import { stopTransactionOcppMessage } from "./stopTransaction";
 
 const RemoteStopTransactionReqSchema = z.object({
@@ -47,6 +47,10 @@ class RemoteStopTransactionOcppMessage extends OcppIncoming<
         ),
         timestamp: new Date().toISOString(),
         transactionData: [
+          ...stopTransactionData(vcp.configuration, {
+            startedAt: transaction.startedAt,
+            meterValue: vcp.transactionManager.getMeterValue(transactionId),
+          }),
           {
             timestamp: new Date().toISOString(),
             sampledValue: [
@@ -64,13 +68,7 @@ class RemoteStopTransactionOcppMessage extends OcppIncoming<
         ],
       }),
     );
-    vcp.send(
-      statusNotificationOcppMessage.request({
-        connectorId: transaction.connectorId,
-        errorCode: "NoError",
-        status: "Available",
-      }),
-    );
+    vcp.connectors.handle(transaction.connectorId, "TransactionStopped");
   };
 }
 
@@ -31,7 +31,14 @@ class ReserveNowOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ReserveNowReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const status = vcp.reservations.reserve({
+      id: call.payload.reservationId,
+      connectorId: call.payload.connectorId,
+      expiryDate: new Date(call.payload.expiryDate),
+      idTag: call.payload.idTag,
+      parentIdTag: call.payload.parentIdTag ?? undefined,
+    });
+    vcp.respond(this.response(call, { status }));
   };
 }
 
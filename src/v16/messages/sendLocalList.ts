@@ -43,7 +43,27 @@ class SendLocalListOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SendLocalListReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    if (!vcp.configuration.getBoolean("LocalAuthListEnabled")) {
+      vcp.respond(this.response(call, { status: "NotSupported" }));
+      return;
+    }
+    const status = vcp.localAuthorization.updateList(
+      {
+        version: call.payload.listVersion,
+        updateType: call.payload.updateType,
+        entries: (call.payload.localAuthorizationList ?? []).map((entry) => ({
+          key: entry.idTag,
+          info: entry.idTagInfo,
+        })),
+      },
+      {
+        maxListLength:
+          vcp.configuration.getInteger("LocalAuthListMaxLength") ?? 0,
+        maxUpdateLength:
+          vcp.configuration.getInteger("SendLocalListMaxLength") ?? 0,
+      },
+    );
+    vcp.respond(this.response(call, { status }));
   };
 }
 
@@ -22,7 +22,31 @@ class SetChargingProfileOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SetChargingProfileReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { connectorId, csChargingProfiles: profile } = call.payload;
+    const { status } = vcp.chargingProfiles.set({
+      id: profile.chargingProfileId,
+      connectorId,
+      stackLevel: profile.stackLevel,
+      chargingProfilePurpose: profile.chargingProfilePurpose,
+      chargingProfileKind: profile.chargingProfileKind,
+      recurrencyKind: profile.recurrencyKind ?? undefined,
+      validFrom: profile.validFrom ?? undefined,
+      validTo: profile.validTo ?? undefined,
+      transactionId: profile.transactionId ?? undefined,
+      chargingSchedule: {
+        startSchedule: profile.chargingSchedule.startSchedule ?? undefined,
+        duration: profile.chargingSchedule.duration ?? undefined,
+        chargingRateUnit: profile.chargingSchedule.chargingRateUnit,
+        chargingSchedulePeriod:
+          profile.chargingSchedule.chargingSchedulePeriod.map((period) => ({
+            startPeriod: period.startPeriod,
+            limit: period.limit,
+            numberPhases: period.numberPhases ?? undefined,
+          })),
+        minChargingRate: profile.chargingSchedule.minChargingRate ?? undefined,
+      },
+    });
+    vcp.respond(this.response(call, { status }));
   };
 }
 
@@ -22,7 +22,13 @@ const SignedUpdateFirmwareReqSchema = z.object({
 type SignedUpdateFirmwareReqType = typeof SignedUpdateFirmwareReqSchema;
 
 const SignedUpdateFirmwareResSchema = z.object({
-  status: z.enum(["Accepted", "Rejected", "AcceptedCanceled"]),
+  status: z.enum([
+    "Accepted",
+    "Rejected",
+    "AcceptedCanceled",
+    "InvalidCertificate",
+    "RevokedCertificate",
+  ]),
   statusInfo: z
     .object({
       reasonCode: z.string().max(20),
@@ -40,7 +46,20 @@ class SignedUpdateFirmwareIncomingOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SignedUpdateFirmwareReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { firmware } = call.payload;
+    const status = vcp.firmware.update({
+      requestId: call.payload.requestId,
+      location: firmware.location,
+      retrieveDate: new Date(firmware.retrieveDateTime),
+      installDate: firmware.installDateTime
+        ? new Date(firmware.installDateTime)
+        : undefined,
+      retries: call.payload.retries ?? undefined,
+      retryInterval: call.payload.retryInterval ?? undefined,
+      signingCertificate: firmware.signingCertificate ?? undefined,
+      signature: firmware.signature ?? undefined,
+    });
+    vcp.respond(this.response(call, { status }));
   };
 }
 
@@ -5,28 +5,11 @@ import {
   OcppOutgoing,
 } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
-import { ConnectorIdSchema } from "./_common";
+import { ChargePointErrorCodeSchema, ConnectorIdSchema } from "./_common";
 
 const StatusNotificationReqSchema = z.object({
   connectorId: ConnectorIdSchema,
-  errorCode: z.enum([
-    "ConnectorLockFailure",
-    "EVCommunicationError",
-    "GroundFailure",
-    "HighTemperature",
-    "InternalError",
-    "LocalListConflict",
-    "NoError",
-    "OtherError",
-    "OverCurrentFailure",
-    "OverVoltage",
-    "PowerMeterFailure",
-    "PowerSwitchFailure",
-    "ReaderFailure",
-    "ResetFailure",
-    "UnderVoltage",
-    "WeakSignal",
-  ]),
+  errorCode: ChargePointErrorCodeSchema,
   info: z.string().max(50).nullish(),
   status: z.enum([
     "Available",
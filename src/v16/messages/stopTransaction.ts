@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { cacheIdTagInfo } from "../../localAuthorization";
 import {
   type OcppCall,
   type OcppCallResult,
@@ -43,9 +44,12 @@ class StopTransactionOcppMessage extends OcppOutgoing<
   resHandler = async (
     vcp: VCP,
     call: OcppCall<z.infer<StopTransactionReqType>>,
-    _result: OcppCallResult<z.infer<StopTransactionResType>>,
+    result: OcppCallResult<z.infer<StopTransactionResType>>,
   ): Promise<void> => {
-    vcp.transactionManager.stopTransaction(call.payload.transactionId);
+    if (call.payload.idTag) {
+      cacheIdTagInfo(vcp, call.payload.idTag, result.payload.idTagInfo);
+    }
+    vcp.transactionManager.stopTransaction(vcp, call.payload.transactionId);
   };
 }
 
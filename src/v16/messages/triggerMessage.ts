@@ -4,7 +4,6 @@ import type { VCP } from "../../vcp";
 import { ConnectorIdSchema } from "./_common";
 import { bootNotificationOcppMessage } from "./bootNotification";
 import { heartbeatOcppMessage } from "./heartbeat";
-import { statusNotificationOcppMessage } from "./statusNotification";
 
 const TriggerMessageReqSchema = z.object({
   requestedMessage: z.enum([
@@ -56,14 +55,7 @@ class TriggerMessageOcppMessage extends OcppIncoming<
       }
       case "StatusNotification": {
         vcp.respond(this.response(call, { status: "Accepted" }));
-        const connectorId = call.payload.connectorId ?? 0;
-        vcp.send(
-          statusNotificationOcppMessage.request({
-            connectorId,
-            errorCode: "NoError",
-            status: "Available",
-          }),
-        );
+        vcp.connectors.notify(call.payload.connectorId ?? 0);
         break;
       }
       default:
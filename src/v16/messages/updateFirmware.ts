@@ -21,6 +21,12 @@ class UpdateFirmwareOcppMessage extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<UpdateFirmwareReqType>>,
   ): Promise<void> => {
+    vcp.firmware.update({
+      location: call.payload.location,
+      retrieveDate: new Date(call.payload.retrieveDate),
+      retries: call.payload.retries ?? undefined,
+      retryInterval: call.payload.retryInterval ?? undefined,
+    });
     vcp.respond(this.response(call, {}));
   };
 }
@@ -1,4 +1,5 @@
 import type { z } from "zod";
+import { OcppError } from "../ocppError";
 import type {
   OcppCall,
   OcppCallError,
@@ -10,7 +11,7 @@ import type { OcppMessageHandler } from "../ocppMessageHandler";
 import type { VCP } from "../vcp";
 import { authorizeOcppOutgoing } from "./messages/authorize";
 import { bootNotificationOcppOutgoing } from "./messages/bootNotification";
-import { cancelReservationOcppOutgoing } from "./messages/cancelReservation";
+import { cancelReservationOcppIncoming } from "./messages/cancelReservation";
 import { certificateSignedOcppOutgoing } from "./messages/certificateSigned";
 import { changeAvailabilityOcppIncoming } from "./messages/changeAvailability";
 import { clearCacheOcppIncoming } from "./messages/clearCache";
@@ -79,6 +80,7 @@ import { updateFirmwareOcppIncoming } from "./messages/updateFirmware";
 export const ocppIncomingMessages: {
   [key: string]: OcppIncoming<z.ZodTypeAny, z.ZodTypeAny>;
 } = {
+  CancelReservation: cancelReservationOcppIncoming,
   ChangeAvailability: changeAvailabilityOcppIncoming,
   ClearCache: clearCacheOcppIncoming,
   ClearChargingProfile: clearChargingProfileOcppIncoming,
@@ -125,7 +127,6 @@ export const ocppOutgoingMessages: {
 } = {
   Authorize: authorizeOcppOutgoing,
   BootNotification: bootNotificationOcppOutgoing,
-  CancelReservation: cancelReservationOcppOutgoing,
   CertificateSigned: certificateSignedOcppOutgoing,
   ClearedChargingLimit: clearedChargingLimitOcppOutgoing,
   DataTransfer: dataTransferOutgoingOcppMessage,
@@ -154,14 +155,16 @@ export const ocppOutgoingMessages: {
 
 export const messageHandlerV201: OcppMessageHandler = {
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
-  handleCall: (vcp: VCP, call: OcppCall<any>): void => {
+  handleCall: (vcp: VCP, call: OcppCall<any>): Promise<void> => {
     const ocppMessage = ocppIncomingMessages[call.action];
     if (!ocppMessage) {
-      throw new Error(
+      // Actions only the charger sends are known, but not accepted from the CSMS
+      throw new OcppError(
+        ocppOutgoingMessages[call.action] ? "NotSupported" : "NotImplemented",
         `OCPP Incoming Message not implemented for ${call.action}`,
       );
     }
-    ocppMessage.reqHandler(vcp, call);
+    return ocppMessage.reqHandler(vcp, call);
   },
   handleCallResult: (
     vcp: VCP,
@@ -169,14 +172,14 @@ export const messageHandlerV201: OcppMessageHandler = {
     call: OcppCall<any>,
     // biome-ignore lint/suspicious/noExplicitAny: ocpp types
     result: OcppCallResult<any>,
-  ): void => {
+  ): Promise<void> => {
     const ocppMessage = ocppOutgoingMessages[result.action];
     if (!ocppMessage) {
       throw new Error(
         `OCPP Outgoing Message not implemented for ${result.action}`,
       );
     }
-    ocppMessage.resHandler(vcp, call, result);
+    return ocppMessage.resHandler(vcp, call, result);
   },
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   handleCallError: (vcp: VCP, error: OcppCallError<any>): void => {
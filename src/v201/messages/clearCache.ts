@@ -20,6 +20,11 @@ class ClearCacheOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ClearCacheReqType>>,
   ): Promise<void> => {
+    if (!(vcp.config.authCacheEnabled ?? true)) {
+      vcp.respond(this.response(call, { status: "Rejected" }));
+      return;
+    }
+    vcp.localAuthorization.clearCache();
     vcp.respond(this.response(call, { status: "Accepted" }));
   };
 }
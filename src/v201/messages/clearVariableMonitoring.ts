@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { OcppError } from "../../ocppError";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import { StatusInfoTypeSchema } from "./_common";
@@ -27,11 +28,23 @@ class ClearVariableMonitoringOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ClearVariableMonitoringReqType>>,
   ): Promise<void> => {
+    const itemsPerMessage = Number(
+      vcp.deviceModel.value(
+        { name: "MonitoringCtrlr" },
+        { name: "ItemsPerMessage", instance: "ClearVariableMonitoring" },
+      ),
+    );
+    if (call.payload.id.length > itemsPerMessage) {
+      throw new OcppError(
+        "OccurrenceConstraintViolation",
+        `At most ${itemsPerMessage} monitors per ClearVariableMonitoring`,
+      );
+    }
     vcp.respond(
       this.response(call, {
         clearMonitoringResult: call.payload.id.map((id) => ({
           id: id,
-          status: "Accepted",
+          status: vcp.variableMonitoring.clear(id),
         })),
       }),
     );
@@ -30,104 +30,26 @@ class GetBaseReportOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetBaseReportReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
-
-    // Send NotifyReport
-    vcp.send(
-      notifyReportOcppOutgoing.request({
-        requestId: call.payload.requestId,
-        generatedAt: new Date().toISOString(),
-        seqNo: 0,
-        tbc: false,
-        reportData: [
-          {
-            component: {
-              name: "OCPPCommCtrlr",
-            },
-            variable: {
-              name: "HeartbeatInterval",
-            },
-            variableAttribute: [
-              {
-                type: "Actual",
-                value: "60",
-                mutability: "ReadWrite",
-                persistent: true,
-                constant: false,
-              },
-            ],
-            variableCharacteristics: {
-              unit: "s",
-              dataType: "integer",
-              supportsMonitoring: false,
-            },
-          },
-          {
-            component: {
-              name: "AuthCtrlr",
-            },
-            variable: {
-              name: "AuthorizeRemoteStart",
-            },
-            variableAttribute: [
-              {
-                type: "Actual",
-                value: "false",
-                mutability: "ReadWrite",
-                persistent: true,
-                constant: true,
-              },
-            ],
-            variableCharacteristics: {
-              dataType: "boolean",
-              supportsMonitoring: false,
-            },
-          },
-          {
-            component: {
-              name: "AuthCtrlr",
-            },
-            variable: {
-              name: "LocalPreAuthorize",
-            },
-            variableAttribute: [
-              {
-                type: "Actual",
-                value: "false",
-                mutability: "ReadWrite",
-                persistent: true,
-                constant: true,
-              },
-            ],
-            variableCharacteristics: {
-              dataType: "boolean",
-              supportsMonitoring: false,
-            },
-          },
-          {
-            component: {
-              name: "TxCtrlr",
-            },
-            variable: {
-              name: "EVConnectionTimeOut",
-            },
-            variableAttribute: [
-              {
-                type: "Actual",
-                value: "10",
-                mutability: "ReadWrite",
-                persistent: true,
-                constant: false,
-              },
-            ],
-            variableCharacteristics: {
-              dataType: "integer",
-              supportsMonitoring: false,
-            },
-          },
-        ],
-      }),
+    const pages = vcp.deviceModel.pages(
+      vcp.deviceModel.report(call.payload.reportBase),
     );
+    if (pages.length === 0) {
+      vcp.respond(this.response(call, { status: "EmptyResultSet" }));
+      return;
+    }
+    vcp.respond(this.response(call, { status: "Accepted" }));
+    const generatedAt = new Date().toISOString();
+    pages.forEach((reportData, seqNo) => {
+      vcp.send(
+        notifyReportOcppOutgoing.request({
+          requestId: call.payload.requestId,
+          generatedAt,
+          seqNo,
+          tbc: seqNo < pages.length - 1,
+          reportData,
+        }),
+      );
+    });
   };
 }
 
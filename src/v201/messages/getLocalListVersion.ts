@@ -18,7 +18,12 @@ class GetLocalListVersionOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetLocalListVersionReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { versionNumber: 1 }));
+    // 0 tells the CSMS that no local list is installed
+    const versionNumber =
+      (vcp.config.localAuthListEnabled ?? true)
+        ? vcp.localAuthorization.version
+        : 0;
+    vcp.respond(this.response(call, { versionNumber }));
   };
 }
 
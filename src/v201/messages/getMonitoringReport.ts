@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { toComponent, toVariable } from "../../deviceModel";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import {
@@ -6,6 +7,7 @@ import {
   StatusInfoTypeSchema,
   VariableTypeSchema,
 } from "./_common";
+import { notifyMonitoringReportOcppOutgoing } from "./notifyMonitoringReport";
 
 const GetMonitoringReportReqSchema = z.object({
   requestId: z.number().int(),
@@ -40,7 +42,39 @@ class GetMonitoringReportOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetMonitoringReportReqType>>,
   ): Promise<void> => {
+    const { monitoringCriteria, componentVariable } = call.payload;
+    const pages = vcp.deviceModel.pages(
+      vcp.variableMonitoring.report(
+        monitoringCriteria ?? undefined,
+        componentVariable?.map(({ component, variable }) => ({
+          component: toComponent(component),
+          variable: variable ? toVariable(variable) : undefined,
+        })),
+      ),
+    );
+    if (pages.length === 0) {
+      vcp.respond(this.response(call, { status: "EmptyResultSet" }));
+      return;
+    }
     vcp.respond(this.response(call, { status: "Accepted" }));
+    const generatedAt = new Date().toISOString();
+    pages.forEach((monitor, seqNo) => {
+      vcp.send(
+        notifyMonitoringReportOcppOutgoing.request({
+          requestId: call.payload.requestId,
+          generatedAt,
+          seqNo,
+          tbc: seqNo < pages.length - 1,
+          // 2.0.1 does not report where a monitor comes from
+          monitor: monitor.map(({ variableMonitoring, ...data }) => ({
+            ...data,
+            variableMonitoring: variableMonitoring.map(
+              ({ eventNotificationType, ...monitoring }) => monitoring,
+            ),
+          })),
+        }),
+      );
+    });
   };
 }
 
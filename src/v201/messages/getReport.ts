@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { type OcppCall, OcppCallResult, OcppIncoming } from "../../ocppMessage";
+import { toComponent, toVariable } from "../../deviceModel";
+import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import {
   ComponentTypeSchema,
@@ -39,15 +40,33 @@ class GetReportOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetReportReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
-    vcp.send(
-      notifyReportOcppOutgoing.request({
-        generatedAt: new Date().toISOString(),
-        requestId: call.payload.requestId,
-        seqNo: 1,
-        reportData: [],
-      }),
+    const { componentVariable, componentCriteria } = call.payload;
+    const pages = vcp.deviceModel.pages(
+      vcp.deviceModel.query(
+        componentVariable?.map(({ component, variable }) => ({
+          component: toComponent(component),
+          variable: variable ? toVariable(variable) : undefined,
+        })),
+        componentCriteria ?? undefined,
+      ),
     );
+    if (pages.length === 0) {
+      vcp.respond(this.response(call, { status: "EmptyResultSet" }));
+      return;
+    }
+    vcp.respond(this.response(call, { status: "Accepted" }));
+    const generatedAt = new Date().toISOString();
+    pages.forEach((reportData, seqNo) => {
+      vcp.send(
+        notifyReportOcppOutgoing.request({
+          generatedAt,
+          requestId: call.payload.requestId,
+          seqNo,
+          tbc: seqNo < pages.length - 1,
+          reportData,
+        }),
+      );
+    });
   };
 }
 
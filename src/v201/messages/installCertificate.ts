@@ -28,7 +28,11 @@ class InstallCertificateOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<InstallCertificateReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const status = vcp.certificates.install(
+      call.payload.certificateType,
+      call.payload.certificate,
+    );
+    vcp.respond(this.response(call, { status }));
   };
 }
 
@@ -1,5 +1,12 @@
 import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
+import { idTokenKey } from "../../idTokenAuthorization";
+import {
+  sampleMeterValue,
+  simulateMeterReading,
+  toMeterValueType,
+  txUpdatedMeasurands,
+} from "../../meterValueSampler";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import {
@@ -7,7 +14,6 @@ import {
   IdTokenTypeSchema,
   StatusInfoTypeSchema,
 } from "./_common";
-import { statusNotificationOcppOutgoing } from "./statusNotification";
 import { transactionEventOcppOutgoing } from "./transactionEvent";
 
 const RequestStartTransactionReqSchema = z.object({
@@ -37,12 +43,44 @@ class RequestStartTransactionOcppIncoming extends OcppIncoming<
     const transactionId = uuidv4();
     const transactionEvseId = call.payload.evseId ?? 1;
     const transactionConnectorId = 1;
+    const groupIdToken = call.payload.groupIdToken
+      ? idTokenKey(call.payload.groupIdToken)
+      : undefined;
+    // A reserved EVSE only starts for its idToken or groupIdToken
+    const reservation = vcp.reservations.checkStart(
+      transactionEvseId,
+      idTokenKey(call.payload.idToken),
+      groupIdToken,
+    );
+    if (
+      !reservation.allowed ||
+      !vcp.connectors.canHandle(transactionEvseId, "TransactionStarted")
+    ) {
+      vcp.respond(this.response(call, { status: "Rejected" }));
+      return;
+    }
+    if (reservation.reservationId !== undefined) {
+      vcp.reservations.consume(reservation.reservationId);
+    }
     vcp.transactionManager.startTransaction(vcp, {
       transactionId: transactionId,
       idTag: call.payload.idToken.idToken,
+      groupIdToken,
       evseId: transactionEvseId,
       connectorId: transactionConnectorId,
       meterValuesCallback: async (transactionStatus) => {
+        const meterValue = sampleMeterValue(
+          simulateMeterReading(
+            transactionStatus,
+            true,
+            vcp.chargingProfiles.offeredCurrent(transactionEvseId),
+          ),
+          txUpdatedMeasurands(vcp.deviceModel),
+          "Sample.Periodic",
+        );
+        if (!meterValue) {
+          return;
+        }
         vcp.send(
           transactionEventOcppOutgoing.request({
             eventType: "Updated",
@@ -56,20 +94,7 @@ class RequestStartTransactionOcppIncoming extends OcppIncoming<
               id: transactionEvseId,
               connectorId: transactionConnectorId,
             },
-            meterValue: [
-              {
-                timestamp: new Date().toISOString(),
-                sampledValue: [
-                  {
-                    value: transactionStatus.meterValue,
-                    measurand: "Energy.Active.Import.Register",
-                    unitOfMeasure: {
-                      unit: "kWh",
-                    },
-                  },
-                ],
-              },
-            ],
+            meterValue: [toMeterValueType(meterValue)],
           }),
         );
       },
@@ -79,14 +104,7 @@ class RequestStartTransactionOcppIncoming extends OcppIncoming<
         status: "Accepted",
       }),
     );
-    vcp.send(
-      statusNotificationOcppOutgoing.request({
-        evseId: transactionEvseId,
-        connectorId: transactionConnectorId,
-        connectorStatus: "Occupied",
-        timestamp: new Date().toISOString(),
-      }),
-    );
+    vcp.connectors.handle(transactionEvseId, "TransactionStarted");
     vcp.send(
       transactionEventOcppOutgoing.request({
         eventType: "Started",
@@ -98,6 +116,7 @@ class RequestStartTransactionOcppIncoming extends OcppIncoming<
           remoteStartId: call.payload.remoteStartId,
         },
         idToken: call.payload.idToken,
+        reservationId: reservation.reservationId,
         evse: {
           id: transactionEvseId,
           connectorId: transactionConnectorId,
@@ -3,7 +3,6 @@ import { generateOCMF, getOCMFPublicKey } from "../../ocmfGenerator";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import { StatusInfoTypeSchema } from "./_common";
-import { statusNotificationOcppOutgoing } from "./statusNotification";
 import { transactionEventOcppOutgoing } from "./transactionEvent";
 
 const RequestStopTransactionReqSchema = z.object({
@@ -82,15 +81,8 @@ class RequestStopTransactionOcppIncoming extends OcppIncoming<
         ],
       }),
     );
-    vcp.send(
-      statusNotificationOcppOutgoing.request({
-        evseId: 1,
-        connectorId: 1,
-        connectorStatus: "Available",
-        timestamp: new Date().toISOString(),
-      }),
-    );
-    vcp.transactionManager.stopTransaction(transactionId);
+    vcp.connectors.handle(transaction.evseId ?? 1, "TransactionStopped");
+    vcp.transactionManager.stopTransaction(vcp, transactionId);
   };
 }
 
@@ -1,8 +1,12 @@
 import { z } from "zod";
+import { idTokenKey, updateLocalList } from "../../idTokenAuthorization";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
-import { IdTokenSchema } from "../../v16/messages/_common";
 import type { VCP } from "../../vcp";
-import { IdTokenInfoTypeSchema, StatusInfoTypeSchema } from "./_common";
+import {
+  IdTokenInfoTypeSchema,
+  IdTokenTypeSchema,
+  StatusInfoTypeSchema,
+} from "./_common";
 
 const SendLocalListReqSchema = z.object({
   versionNumber: z.number().int(),
@@ -11,7 +15,7 @@ const SendLocalListReqSchema = z.object({
     .array(
       z.object({
         idTokenInfo: IdTokenInfoTypeSchema.nullish(),
-        idToken: IdTokenSchema,
+        idToken: IdTokenTypeSchema,
       }),
     )
     .nullish(),
@@ -32,7 +36,24 @@ class SendLocalListOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SendLocalListReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    if (!(vcp.config.localAuthListEnabled ?? true)) {
+      vcp.respond(
+        this.response(call, {
+          status: "Failed",
+          statusInfo: { reasonCode: "Disabled" },
+        }),
+      );
+      return;
+    }
+    const status = updateLocalList(vcp, {
+      version: call.payload.versionNumber,
+      updateType: call.payload.updateType,
+      entries: (call.payload.localAuthorizationList ?? []).map((entry) => ({
+        key: idTokenKey(entry.idToken),
+        info: entry.idTokenInfo,
+      })),
+    });
+    vcp.respond(this.response(call, { status }));
   };
 }
 
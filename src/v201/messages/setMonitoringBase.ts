@@ -22,6 +22,7 @@ class SetMonitoringBaseOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SetMonitoringBaseReqType>>,
   ): Promise<void> => {
+    vcp.variableMonitoring.setBase(call.payload.monitoringBase);
     vcp.respond(this.response(call, { status: "Accepted" }));
   };
 }
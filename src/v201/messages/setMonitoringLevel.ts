@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { type OcppCall, OcppCallResult, OcppIncoming } from "../../ocppMessage";
+import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import { GenericStatusEnumSchema, StatusInfoTypeSchema } from "./_common";
 
@@ -22,6 +22,7 @@ class SetMonitoringLevelOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SetMonitoringLevelReqType>>,
   ): Promise<void> => {
+    vcp.variableMonitoring.setLevel(call.payload.severity);
     vcp.respond(this.response(call, { status: "Accepted" }));
   };
 }
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { toComponent, toVariable } from "../../deviceModel";
+import { OcppError } from "../../ocppError";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import {
@@ -47,11 +49,29 @@ class SetVariablesOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SetVariablesReqType>>,
   ): Promise<void> => {
+    const { setVariableData } = call.payload;
+    const itemsPerMessage = Number(
+      vcp.deviceModel.value(
+        { name: "DeviceDataCtrlr" },
+        { name: "ItemsPerMessage", instance: "SetVariables" },
+      ),
+    );
+    if (setVariableData.length > itemsPerMessage) {
+      throw new OcppError(
+        "OccurrenceConstraintViolation",
+        `At most ${itemsPerMessage} variables per SetVariables`,
+      );
+    }
     vcp.respond(
       this.response(call, {
-        setVariableResult: call.payload.setVariableData.map((data) => ({
+        setVariableResult: setVariableData.map((data) => ({
           attributeType: data.attributeType,
-          attributeStatus: "Accepted",
+          attributeStatus: vcp.deviceModel.set(
+            toComponent(data.component),
+            toVariable(data.variable),
+            data.attributeValue,
+            data.attributeType ?? undefined,
+          ),
           component: data.component,
           variable: data.variable,
         })),
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { cacheIdTokenInfo, idTokenKey } from "../../idTokenAuthorization";
 import {
   type OcppCall,
   type OcppCallResult,
@@ -94,11 +95,23 @@ class TransactionEventOcppOutgoing extends OcppOutgoing<
   TransactionEventResType
 > {
   resHandler = async (
-    _vcp: VCP,
-    _call: OcppCall<z.infer<TransactionEventReqType>>,
-    _result: OcppCallResult<z.infer<TransactionEventResType>>,
+    vcp: VCP,
+    call: OcppCall<z.infer<TransactionEventReqType>>,
+    result: OcppCallResult<z.infer<TransactionEventResType>>,
   ): Promise<void> => {
-    // NOOP
+    const { idToken } = call.payload;
+    const { idTokenInfo } = result.payload;
+    if (!idToken || !idTokenInfo) {
+      return;
+    }
+    cacheIdTokenInfo(vcp, idToken, idTokenInfo);
+    // Remember the group, idTokens of the same group may stop the transaction
+    const transaction = vcp.transactionManager.transactions.get(
+      call.payload.transactionInfo.transactionId,
+    );
+    if (transaction && idTokenInfo.groupIdToken) {
+      transaction.groupIdToken = idTokenKey(idTokenInfo.groupIdToken);
+    }
   };
 }
 
@@ -1,4 +1,6 @@
 import type { z } from "zod";
+import { logger } from "../logger";
+import { OcppError } from "../ocppError";
 import type {
   OcppCall,
   OcppCallError,
@@ -13,6 +15,7 @@ import { afrrSignalOcppIncoming } from "./messages/afrrSignal";
 import { authorizeOcppOutgoing } from "./messages/authorize";
 import { batterySwapOcppOutgoing } from "./messages/batterySwap";
 import { bootNotificationOcppOutgoing } from "./messages/bootNotification";
+import { cancelReservationOcppIncoming } from "./messages/cancelReservation";
 import { certificateSignedOcppIncoming } from "./messages/certificateSigned";
 import { changeAvailabilityOcppIncoming } from "./messages/changeAvailability";
 import { changeTransactionTariffOcppIncoming } from "./messages/changeTransactionTariff";
@@ -111,7 +114,7 @@ export const ocppIncomingMessages: {
 } = {
   AdjustPeriodicEventStream: adjustPeriodicEventStreamOcppIncoming,
   AFRRSignal: afrrSignalOcppIncoming,
-  CancelReservation: changeAvailabilityOcppIncoming,
+  CancelReservation: cancelReservationOcppIncoming,
   ChangeAvailability: changeAvailabilityOcppIncoming,
   ChangeTransactionTariff: changeTransactionTariffOcppIncoming,
   CertificateSigned: certificateSignedOcppIncoming,
@@ -213,14 +216,16 @@ export const ocppOutgoingMessages: {
 
 export const messageHandlerV21: OcppMessageHandler = {
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
-  handleCall: (vcp: VCP, call: OcppCall<any>): void => {
+  handleCall: (vcp: VCP, call: OcppCall<any>): Promise<void> => {
     const ocppMessage = ocppIncomingMessages[call.action];
     if (!ocppMessage) {
-      throw new Error(
+      // Actions only the charger sends are known, but not accepted from the CSMS
+      throw new OcppError(
+        ocppOutgoingMessages[call.action] ? "NotSupported" : "NotImplemented",
         `OCPP Incoming Message not implemented for ${call.action}`,
       );
     }
-    ocppMessage.reqHandler(vcp, call);
+    return ocppMessage.reqHandler(vcp, call);
   },
   handleCallResult: (
     vcp: VCP,
@@ -228,17 +233,39 @@ export const messageHandlerV21: OcppMessageHandler = {
     call: OcppCall<any>,
     // biome-ignore lint/suspicious/noExplicitAny: ocpp types
     result: OcppCallResult<any>,
-  ): void => {
+  ): Promise<void> => {
     const ocppMessage = ocppOutgoingMessages[result.action];
     if (!ocppMessage) {
       throw new Error(
         `OCPP Outgoing Message not implemented for ${result.action}`,
       );
     }
-    ocppMessage.resHandler(vcp, call, result);
+    return ocppMessage.resHandler(vcp, call, result);
   },
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   handleCallError: (vcp: VCP, error: OcppCallError<any>): void => {
     // NOOP
   },
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  handleSend: (vcp: VCP, call: OcppCall<any>): void => {
+    // SEND messages are never answered, not even with an error. Every request
+    // a charging station handles expects a response, so none may be a SEND.
+    if (ocppIncomingMessages[call.action]) {
+      logger.error(
+        `Rejecting unconfirmed ${call.action} message, it must be sent as a CALL`,
+      );
+    } else if (ocppOutgoingMessages[call.action]) {
+      logger.warn(
+        `Ignoring unconfirmed ${call.action} message, only a charging station sends it`,
+      );
+    } else {
+      logger.warn(`Ignoring unconfirmed ${call.action} message`);
+    }
+  },
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  handleCallResultError: (vcp: VCP, error: OcppCallError<any>): void => {
+    logger.warn(
+      `CSMS could not process our CallResult ${error.messageId}: ${error.errorCode} ${error.errorDescription}`,
+    );
+  },
 };
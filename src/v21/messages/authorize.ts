@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { cacheIdTokenInfo } from "../../idTokenAuthorization";
 import {
   type OcppCall,
   type OcppCallResult,
@@ -46,11 +47,11 @@ class AuthorizeOcppOutgoing extends OcppOutgoing<
   AuthorizeResType
 > {
   resHandler = async (
-    _vcp: VCP,
-    _call: OcppCall<z.infer<AuthorizeReqType>>,
-    _result: OcppCallResult<z.infer<AuthorizeResType>>,
+    vcp: VCP,
+    call: OcppCall<z.infer<AuthorizeReqType>>,
+    result: OcppCallResult<z.infer<AuthorizeResType>>,
   ): Promise<void> => {
-    // NOOP
+    cacheIdTokenInfo(vcp, call.payload.idToken, result.payload.idTokenInfo);
   };
 }
 
@@ -22,7 +22,10 @@ class CancelReservationOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<CancelReservationReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const status = vcp.reservations.cancel(call.payload.reservationId)
+      ? "Accepted"
+      : "Rejected";
+    vcp.respond(this.response(call, { status }));
   };
 }
 
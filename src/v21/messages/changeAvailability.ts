@@ -2,7 +2,6 @@ import { z } from "zod";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import { EVSETypeSchema, StatusInfoTypeSchema } from "./_common";
-import { statusNotificationOcppOutgoing } from "./statusNotification";
 
 const ChangeAvailabilityReqSchema = z.object({
   operationalStatus: z.enum(["Inoperative", "Operative"]),
@@ -24,17 +23,14 @@ class ChangeAvailabilityOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ChangeAvailabilityReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
-    if (call.payload.operationalStatus === "Inoperative") {
-      vcp.send(
-        statusNotificationOcppOutgoing.request({
-          timestamp: new Date().toISOString(),
-          connectorStatus: "Unavailable",
-          evseId: call.payload.evse?.id ?? 1,
-          connectorId: call.payload.evse?.connectorId ?? 1,
-        }),
-      );
+    const evseId = call.payload.evse?.id ?? 1;
+    const { operationalStatus } = call.payload;
+    if (!vcp.connectors.canHandle(evseId, operationalStatus)) {
+      vcp.respond(this.response(call, { status: "Rejected" }));
+      return;
     }
+    vcp.respond(this.response(call, { status: "Accepted" }));
+    vcp.connectors.handle(evseId, operationalStatus);
   };
 }
 
@@ -29,7 +29,21 @@ class ClearChargingProfileOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ClearChargingProfileReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { chargingProfileId, chargingProfileCriteria: criteria } =
+      call.payload;
+    const cleared = vcp.chargingProfiles.clear(
+      chargingProfileId != null
+        ? { id: chargingProfileId }
+        : {
+            connectorId: criteria?.evseId ?? undefined,
+            chargingProfilePurpose:
+              criteria?.chargingProfilePurpose ?? undefined,
+            stackLevel: criteria?.stackLevel ?? undefined,
+          },
+    );
+    vcp.respond(
+      this.response(call, { status: cleared > 0 ? "Accepted" : "Unknown" }),
+    );
   };
 }
 
@@ -84,7 +84,33 @@ class GetCompositeScheduleOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetCompositeScheduleReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { evseId, duration, chargingRateUnit } = call.payload;
+    const schedule = vcp.chargingProfiles.getCompositeSchedule(
+      evseId,
+      duration,
+      chargingRateUnit ?? undefined,
+    );
+    if (!schedule) {
+      vcp.respond(
+        this.response(call, {
+          status: "Rejected",
+          statusInfo: { reasonCode: "UnknownEvse" },
+        }),
+      );
+      return;
+    }
+    vcp.respond(
+      this.response(call, {
+        status: "Accepted",
+        schedule: {
+          evseId,
+          duration: schedule.duration,
+          scheduleStart: schedule.scheduleStart,
+          chargingRateUnit: schedule.chargingRateUnit,
+          chargingSchedulePeriod: schedule.chargingSchedulePeriod,
+        },
+      }),
+    );
   };
 }
 
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { toComponent, toVariable } from "../../deviceModel";
+import { OcppError } from "../../ocppError";
 import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import {
@@ -50,14 +52,35 @@ class GetVariablesOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<GetVariablesReqType>>,
   ): Promise<void> => {
+    const { getVariableData } = call.payload;
+    const itemsPerMessage = Number(
+      vcp.deviceModel.value(
+        { name: "DeviceDataCtrlr" },
+        { name: "ItemsPerMessage", instance: "GetVariables" },
+      ),
+    );
+    if (getVariableData.length > itemsPerMessage) {
+      throw new OcppError(
+        "OccurrenceConstraintViolation",
+        `At most ${itemsPerMessage} variables per GetVariables`,
+      );
+    }
     vcp.respond(
       this.response(call, {
-        getVariableResult: call.payload.getVariableData.map((data) => ({
-          attributeStatus: "Accepted",
-          attributeType: data.attributeType,
-          component: data.component,
-          variable: data.variable,
-        })),
+        getVariableResult: getVariableData.map((data) => {
+          const { status, value } = vcp.deviceModel.get(
+            toComponent(data.component),
+            toVariable(data.variable),
+            data.attributeType ?? undefined,
+          );
+          return {
+            attributeStatus: status,
+            attributeType: data.attributeType,
+            attributeValue: value,
+            component: data.component,
+            variable: data.variable,
+          };
+        }),
       }),
     );
   };
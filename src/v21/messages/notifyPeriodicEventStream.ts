@@ -24,6 +24,7 @@ const NotifyPeriodicEventStreamResSchema = z.object({});
 type NotifyPeriodicEventStreamResType =
   typeof NotifyPeriodicEventStreamResSchema;
 
+// Sent as an unconfirmed SEND message with vcp.sendUnconfirmed()
 class NotifyPeriodicEventStreamOcppOutgoing extends OcppOutgoing<
   NotifyPeriodicEventStreamReqType,
   NotifyPeriodicEventStreamResType
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { idTokenKey } from "../../idTokenAuthorization";
 import { type OcppCall, OcppCallResult, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import { IdTokenTypeSchema, StatusInfoTypeSchema } from "./_common";
@@ -67,7 +68,16 @@ class ReserveNowOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<ReserveNowReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const status = vcp.reservations.reserve({
+      id: call.payload.id,
+      connectorId: call.payload.evseId ?? 0,
+      expiryDate: new Date(call.payload.expiryDateTime),
+      idTag: idTokenKey(call.payload.idToken),
+      parentIdTag: call.payload.groupIdToken
+        ? idTokenKey(call.payload.groupIdToken)
+        : undefined,
+    });
+    vcp.respond(this.response(call, { status }));
   };
 }
 
@@ -23,7 +23,48 @@ class SetChargingProfileOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SetChargingProfileReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { evseId, chargingProfile: profile } = call.payload;
+    // The first schedule is the one that applies, others are ISO 15118 offers
+    const [schedule] = profile.chargingSchedule;
+    if (!schedule) {
+      vcp.respond(
+        this.response(call, {
+          status: "Rejected",
+          statusInfo: { reasonCode: "InvalidSchedule" },
+        }),
+      );
+      return;
+    }
+    const { status, reason } = vcp.chargingProfiles.set({
+      id: profile.id,
+      connectorId: evseId,
+      stackLevel: profile.stackLevel,
+      chargingProfilePurpose: profile.chargingProfilePurpose,
+      chargingProfileKind: profile.chargingProfileKind,
+      recurrencyKind: profile.recurrencyKind ?? undefined,
+      validFrom: profile.validFrom ?? undefined,
+      validTo: profile.validTo ?? undefined,
+      transactionId: profile.transactionId ?? undefined,
+      chargingSchedule: {
+        startSchedule: schedule.startSchedule ?? undefined,
+        duration: schedule.duration ?? undefined,
+        chargingRateUnit: schedule.chargingRateUnit,
+        chargingSchedulePeriod: schedule.chargingSchedulePeriod.map(
+          (period) => ({
+            startPeriod: period.startPeriod,
+            limit: period.limit,
+            numberPhases: period.numberPhases ?? undefined,
+          }),
+        ),
+        minChargingRate: schedule.minChargingRate ?? undefined,
+      },
+    });
+    vcp.respond(
+      this.response(call, {
+        status,
+        statusInfo: reason ? { reasonCode: reason } : undefined,
+      }),
+    );
   };
 }
 
@@ -1,5 +1,7 @@
 import { z } from "zod";
-import { type OcppCall, OcppCallResult, OcppIncoming } from "../../ocppMessage";
+import { toComponent, toVariable } from "../../deviceModel";
+import { OcppError } from "../../ocppError";
+import { type OcppCall, OcppIncoming } from "../../ocppMessage";
 import type { VCP } from "../../vcp";
 import {
   ComponentTypeSchema,
@@ -59,16 +61,45 @@ class SetVariableMonitoringOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<SetVariableMonitoringReqType>>,
   ): Promise<void> => {
+    const { setMonitoringData } = call.payload;
+    const itemsPerMessage = Number(
+      vcp.deviceModel.value(
+        { name: "MonitoringCtrlr" },
+        { name: "ItemsPerMessage", instance: "SetVariableMonitoring" },
+      ),
+    );
+    if (setMonitoringData.length > itemsPerMessage) {
+      throw new OcppError(
+        "OccurrenceConstraintViolation",
+        `At most ${itemsPerMessage} monitors per SetVariableMonitoring`,
+      );
+    }
     vcp.respond(
       this.response(call, {
-        setMonitoringResult: call.payload.setMonitoringData.map((data) => ({
-          status: "Accepted",
-          id: data.id,
-          severity: data.severity,
-          type: data.type,
-          component: data.component,
-          variable: data.variable,
-        })),
+        setMonitoringResult: setMonitoringData.map((data) => {
+          const { type } = data;
+          // No target values to deviate from are simulated
+          const { status, id } =
+            type === "TargetDelta" || type === "TargetDeltaRelative"
+              ? { status: "UnsupportedMonitorType" as const, id: data.id }
+              : vcp.variableMonitoring.set({
+                  id: data.id ?? undefined,
+                  component: toComponent(data.component),
+                  variable: toVariable(data.variable),
+                  type,
+                  value: data.value,
+                  severity: data.severity,
+                  transaction: data.transaction ?? false,
+                });
+          return {
+            status,
+            id,
+            severity: data.severity,
+            type: data.type,
+            component: data.component,
+            variable: data.variable,
+          };
+        }),
       }),
     );
   };
@@ -37,7 +37,20 @@ class UpdateFirmwareOcppIncoming extends OcppIncoming<
     vcp: VCP,
     call: OcppCall<z.infer<UpdateFirmwareReqType>>,
   ): Promise<void> => {
-    vcp.respond(this.response(call, { status: "Accepted" }));
+    const { firmware } = call.payload;
+    const status = vcp.firmware.update({
+      requestId: call.payload.requestId,
+      location: firmware.location,
+      retrieveDate: new Date(firmware.retrieveDateTime),
+      installDate: firmware.installDateTime
+        ? new Date(firmware.installDateTime)
+        : undefined,
+      retries: call.payload.retries ?? undefined,
+      retryInterval: call.payload.retryInterval ?? undefined,
+      signingCertificate: firmware.signingCertificate ?? undefined,
+      signature: firmware.signature ?? undefined,
+    });
+    vcp.respond(this.response(call, { status }));
   };
 }
 
@@ -0,0 +1,536 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { nextAlignedBoundary } from "./alignedDataScheduler";
+import {
+  type Component,
+  type ComponentVariable,
+  type DataType,
+  type Variable,
+  isRequested,
+  variableKey,
+} from "./deviceModel";
+import { logger } from "./logger";
+import { OcppVersion } from "./ocppVersion";
+import { notifyEventOcppOutgoing as notifyEvent21 } from "./v21/messages/notifyEvent";
+import { notifyEventOcppOutgoing as notifyEvent201 } from "./v201/messages/notifyEvent";
+import type { VCP } from "./vcp";
+
+const VARIABLE_MONITORING_FILE = "variable-monitoring.json";
+
+const SAMPLE_INTERVAL_MS = 1000;
+// Severities up to the monitoring level are reported, 9 reports all of them
+const DEFAULT_MONITORING_LEVEL = 9;
+const MAX_TEMPERATURE_C = 60;
+
+export type MonitorType =
+  | "UpperThreshold"
+  | "LowerThreshold"
+  | "Delta"
+  | "Periodic"
+  | "PeriodicClockAligned";
+
+export type MonitoringBase = "All" | "FactoryDefault" | "HardWiredOnly";
+
+export type MonitoringCriterion =
+  | "ThresholdMonitoring"
+  | "DeltaMonitoring"
+  | "PeriodicMonitoring";
+
+// eventNotificationType of the events of a monitor
+export type MonitorOrigin =
+  | "HardWiredMonitor"
+  | "PreconfiguredMonitor"
+  | "CustomMonitor";
+
+export type SetMonitoringStatus =
+  | "Accepted"
+  | "UnknownComponent"
+  | "UnknownVariable"
+  | "UnsupportedMonitorType"
+  | "Rejected"
+  | "Duplicate";
+
+export type ClearMonitoringStatus = "Accepted" | "Rejected" | "NotFound";
+
+export interface VariableMonitor {
+  id: number;
+  component: Component;
+  variable: Variable;
+  type: MonitorType;
+  value: number; // Threshold, delta, or interval in seconds
+  severity: number; // 0 (Danger) to 9 (Debug)
+  transaction: boolean; // Only active while a transaction runs
+  origin: MonitorOrigin;
+}
+
+export type MonitorRequest = Omit<VariableMonitor, "id" | "origin"> & {
+  id?: number; // Replaces the monitor with this id
+};
+
+export interface SetMonitoringResult {
+  status: SetMonitoringStatus;
+  id?: number;
+}
+
+// Monitors of a variable as reported in NotifyMonitoringReport
+export interface MonitoringData {
+  component: Component;
+  variable: Variable;
+  variableMonitoring: (Pick<
+    VariableMonitor,
+    "id" | "transaction" | "value" | "type" | "severity"
+  > & { eventNotificationType: MonitorOrigin })[];
+}
+
+interface MonitorState {
+  reference?: string; // Value at the last Delta event
+  exceeded: boolean; // Threshold crossed and not cleared yet
+  due?: number; // Next periodic event, in ms since epoch
+}
+
+interface PersistedMonitoring {
+  base: MonitoringBase;
+  level: number;
+  monitors: VariableMonitor[]; // All but the hardwired ones
+}
+
+const isNumeric = (dataType: DataType) =>
+  dataType === "integer" || dataType === "decimal";
+
+const criterion = (type: MonitorType): MonitoringCriterion => {
+  switch (type) {
+    case "Delta":
+      return "DeltaMonitoring";
+    case "Periodic":
+    case "PeriodicClockAligned":
+      return "PeriodicMonitoring";
+    default:
+      return "ThresholdMonitoring";
+  }
+};
+
+// Monitors the charger comes with: a hardwired one on the station's problem
+// state, and preconfigured ones on each connector's availability and each
+// EVSE's temperature
+const defaultMonitors = (numberOfConnectors: number): VariableMonitor[] => {
+  const monitors: VariableMonitor[] = [
+    {
+      id: 1,
+      component: { name: "ChargingStation" },
+      variable: { name: "Problem" },
+      type: "Delta",
+      value: 1,
+      severity: 2,
+      transaction: false,
+      origin: "HardWiredMonitor",
+    },
+  ];
+  for (let id = 1; id <= numberOfConnectors; id++) {
+    monitors.push(
+      {
+        id: monitors.length + 1,
+        component: { name: "Connector", evse: { id, connectorId: 1 } },
+        variable: { name: "AvailabilityState" },
+        type: "Delta",
+        value: 1,
+        severity: 7,
+        transaction: false,
+        origin: "PreconfiguredMonitor",
+      },
+      {
+        id: monitors.length + 2,
+        component: { name: "TemperatureSensor", evse: { id } },
+        variable: { name: "Temperature" },
+        type: "UpperThreshold",
+        value: MAX_TEMPERATURE_C,
+        severity: 4,
+        transaction: false,
+        origin: "PreconfiguredMonitor",
+      },
+    );
+  }
+  return monitors;
+};
+
+// OCPP 2.x monitors on device model variables: hardwired, preconfigured and
+// set with SetVariableMonitoring. Monitored values are sampled every second
+// and whenever a connector status changes; thresholds crossed, deltas
+// exceeded and periodic reports are sent as NotifyEvent if the monitor's
+// severity is within the monitoring level.
+export class VariableMonitoring {
+  base: MonitoringBase = "All";
+  level = DEFAULT_MONITORING_LEVEL;
+  private monitors: Map<number, VariableMonitor> = new Map();
+  private states: Map<number, MonitorState> = new Map();
+  private nextEventId = 1;
+  private timer?: NodeJS.Timeout;
+  private filePath?: string;
+
+  constructor(
+    private vcp: VCP,
+    private ocppVersion: OcppVersion,
+    stateDir?: string,
+  ) {
+    for (const monitor of this.defaults()) {
+      this.monitors.set(monitor.id, monitor);
+    }
+    if (stateDir) {
+      this.filePath = path.join(stateDir, VARIABLE_MONITORING_FILE);
+      this.load();
+    }
+    vcp.on("messageSent", (message) => {
+      if (
+        this.timer &&
+        "payload" in message &&
+        message.action === "StatusNotification"
+      ) {
+        this.evaluate();
+      }
+    });
+  }
+
+  list(): VariableMonitor[] {
+    return Array.from(this.monitors.values());
+  }
+
+  set(request: MonitorRequest): SetMonitoringResult {
+    const characteristics = this.vcp.deviceModel.characteristicsOf(
+      request.component,
+      request.variable,
+    );
+    if (typeof characteristics === "string") {
+      return { status: characteristics };
+    }
+    if (!characteristics.supportsMonitoring) {
+      return { status: "UnsupportedMonitorType" };
+    }
+    switch (request.type) {
+      case "UpperThreshold":
+      case "LowerThreshold":
+        if (!isNumeric(characteristics.dataType)) {
+          return { status: "UnsupportedMonitorType" };
+        }
+        if (
+          request.value <
+            (characteristics.minLimit ?? Number.NEGATIVE_INFINITY) ||
+          request.value > (characteristics.maxLimit ?? Number.POSITIVE_INFINITY)
+        ) {
+          return { status: "Rejected" };
+        }
+        break;
+      case "Delta":
+        if (request.value < 0) {
+          return { status: "Rejected" };
+        }
+        break;
+      default:
+        if (request.value <= 0) {
+          return { status: "Rejected" };
+        }
+    }
+    const existing =
+      request.id === undefined ? undefined : this.monitors.get(request.id);
+    // Only existing monitors can be replaced, hardwired ones not at all
+    if (
+      request.id !== undefined &&
+      (!existing || existing.origin === "HardWiredMonitor")
+    ) {
+      return { status: "Rejected" };
+    }
+    const key = variableKey(request.component, request.variable);
+    if (
+      !existing &&
+      this.list().some(
+        (monitor) =>
+          variableKey(monitor.component, monitor.variable) === key &&
+          monitor.type === request.type &&
+          monitor.severity === request.severity,
+      )
+    ) {
+      return { status: "Duplicate" };
+    }
+    const monitor: VariableMonitor = {
+      ...request,
+      id: existing?.id ?? this.nextId(),
+      origin: existing?.origin ?? "CustomMonitor",
+    };
+    this.monitors.set(monitor.id, monitor);
+    this.states.delete(monitor.id);
+    this.persist();
+    return { status: "Accepted", id: monitor.id };
+  }
+
+  clear(id: number): ClearMonitoringStatus {
+    const monitor = this.monitors.get(id);
+    if (!monitor) {
+      return "NotFound";
+    }
+    if (monitor.origin === "HardWiredMonitor") {
+      return "Rejected";
+    }
+    this.monitors.delete(id);
+    this.states.delete(id);
+    this.persist();
+    return "Accepted";
+  }
+
+  // All activates the preconfigured monitors next to the custom ones,
+  // FactoryDefault replaces the custom ones with them and HardWiredOnly
+  // removes both
+  setBase(base: MonitoringBase) {
+    for (const monitor of this.list()) {
+      if (
+        monitor.origin === "PreconfiguredMonitor" ||
+        (monitor.origin === "CustomMonitor" && base !== "All")
+      ) {
+        this.monitors.delete(monitor.id);
+        this.states.delete(monitor.id);
+      }
+    }
+    if (base !== "HardWiredOnly") {
+      for (const monitor of this.defaults()) {
+        if (!this.monitors.has(monitor.id)) {
+          this.monitors.set(monitor.id, monitor);
+        }
+      }
+    }
+    this.base = base;
+    this.persist();
+  }
+
+  setLevel(severity: number) {
+    this.level = severity;
+    this.persist();
+  }
+
+  // Monitors of a GetMonitoringReport per variable, of the requested
+  // variables and of any of the monitoring criteria
+  report(
+    monitoringCriteria: MonitoringCriterion[] = [],
+    componentVariables: ComponentVariable[] = [],
+  ): MonitoringData[] {
+    const data: Map<string, MonitoringData> = new Map();
+    for (const monitor of this.list()) {
+      if (
+        (monitoringCriteria.length > 0 &&
+          !monitoringCriteria.includes(criterion(monitor.type))) ||
+        !isRequested(monitor.component, monitor.variable, componentVariables)
+      ) {
+        continue;
+      }
+      const key = variableKey(monitor.component, monitor.variable);
+      const entry = data.get(key) ?? {
+        component: monitor.component,
+        variable: monitor.variable,
+        variableMonitoring: [],
+      };
+      entry.variableMonitoring.push({
+        id: monitor.id,
+        transaction: monitor.transaction,
+        value: monitor.value,
+        type: monitor.type,
+        severity: monitor.severity,
+        eventNotificationType: monitor.origin,
+      });
+      data.set(key, entry);
+    }
+    return Array.from(data.values());
+  }
+
+  // Starts sampling the monitored values, once the CSMS accepted the charger
+  start() {
+    this.stop();
+    if (this.ocppVersion === OcppVersion.OCPP_1_6) {
+      return;
+    }
+    this.timer = setInterval(() => this.evaluate(), SAMPLE_INTERVAL_MS);
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private defaults(): VariableMonitor[] {
+    return defaultMonitors(this.vcp.config.numberOfConnectors ?? 1);
+  }
+
+  private nextId(): number {
+    return (
+      Math.max(this.defaults().length, ...Array.from(this.monitors.keys())) + 1
+    );
+  }
+
+  private evaluate() {
+    if (
+      this.vcp.deviceModel.value(
+        { name: "MonitoringCtrlr" },
+        { name: "Enabled" },
+      ) !== "true"
+    ) {
+      return;
+    }
+    const now = Date.now();
+    const eventData = [];
+    for (const monitor of this.list()) {
+      const transactionId = this.transactionId(monitor);
+      if (monitor.transaction && transactionId === undefined) {
+        this.states.delete(monitor.id);
+        continue;
+      }
+      const actualValue = this.vcp.deviceModel.value(
+        monitor.component,
+        monitor.variable,
+      );
+      if (actualValue === undefined) {
+        continue;
+      }
+      const event = this.check(monitor, actualValue, now);
+      if (!event || monitor.severity > this.level) {
+        continue;
+      }
+      eventData.push({
+        eventId: this.nextEventId++,
+        timestamp: new Date(now).toISOString(),
+        ...event,
+        actualValue: actualValue.slice(0, 2500),
+        transactionId: monitor.transaction ? transactionId : undefined,
+        variableMonitoringId: monitor.id,
+        eventNotificationType: monitor.origin,
+        component: monitor.component,
+        variable: monitor.variable,
+        severity:
+          this.ocppVersion === OcppVersion.OCPP_2_1
+            ? monitor.severity
+            : undefined,
+      });
+    }
+    if (eventData.length === 0) {
+      return;
+    }
+    const notifyEvent =
+      this.ocppVersion === OcppVersion.OCPP_2_1
+        ? notifyEvent21
+        : notifyEvent201;
+    this.vcp.send(
+      notifyEvent.request({
+        generatedAt: new Date(now).toISOString(),
+        seqNo: 0,
+        tbc: false,
+        eventData,
+      }),
+    );
+  }
+
+  // Trigger of the event a monitor raises for a sampled value, if any
+  private check(
+    monitor: VariableMonitor,
+    value: string,
+    now: number,
+  ):
+    | { trigger: "Alerting" | "Delta" | "Periodic"; cleared?: boolean }
+    | undefined {
+    const state = this.states.get(monitor.id) ?? { exceeded: false };
+    this.states.set(monitor.id, state);
+    switch (monitor.type) {
+      case "UpperThreshold":
+      case "LowerThreshold": {
+        const exceeded =
+          monitor.type === "UpperThreshold"
+            ? Number(value) > monitor.value
+            : Number(value) < monitor.value;
+        if (exceeded === state.exceeded) {
+          return;
+        }
+        state.exceeded = exceeded;
+        return exceeded
+          ? { trigger: "Alerting" }
+          : { trigger: "Alerting", cleared: true };
+      }
+      case "Delta": {
+        const reference = state.reference;
+        if (reference === undefined) {
+          state.reference = value;
+          return;
+        }
+        // Non-numeric values report every change
+        const numeric =
+          !Number.isNaN(Number(value)) && !Number.isNaN(Number(reference));
+        if (
+          value === reference ||
+          (numeric &&
+            Math.abs(Number(value) - Number(reference)) < monitor.value)
+        ) {
+          return;
+        }
+        state.reference = value;
+        return { trigger: "Delta" };
+      }
+      default: {
+        if (state.due !== undefined && now < state.due) {
+          return;
+        }
+        // The first sample only schedules the first report
+        const due = state.due !== undefined;
+        state.due =
+          monitor.type === "Periodic"
+            ? now + monitor.value * 1000
+            : nextAlignedBoundary(new Date(now), monitor.value).getTime();
+        return due ? { trigger: "Periodic" } : undefined;
+      }
+    }
+  }
+
+  // Transaction on the monitored EVSE, or any transaction for a monitor of
+  // the charging station or a controller
+  private transactionId(monitor: VariableMonitor): string | undefined {
+    const evseId = monitor.component.evse?.id;
+    const transaction =
+      evseId === undefined
+        ? Array.from(this.vcp.transactionManager.transactions.values())[0]
+        : this.vcp.transactionManager.getActiveTransaction(evseId);
+    return transaction ? String(transaction.transactionId) : undefined;
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const persisted: PersistedMonitoring = JSON.parse(
+        fs.readFileSync(this.filePath, "utf-8"),
+      );
+      this.base = persisted.base;
+      this.level = persisted.level;
+      for (const monitor of this.list()) {
+        if (monitor.origin !== "HardWiredMonitor") {
+          this.monitors.delete(monitor.id);
+        }
+      }
+      for (const monitor of persisted.monitors) {
+        this.monitors.set(monitor.id, monitor);
+      }
+    } catch (err) {
+      logger.error(
+        `Failed to load variable monitoring from ${this.filePath}`,
+        err,
+      );
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+    const persisted: PersistedMonitoring = {
+      base: this.base,
+      level: this.level,
+      monitors: this.list().filter(
+        (monitor) => monitor.origin !== "HardWiredMonitor",
+      ),
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(persisted, null, 2));
+  }
+}
@@ -1,27 +1,78 @@
+import { EventEmitter } from "node:events";
 import * as util from "node:util";
-import { WebSocket } from "ws";
+import { type ClientOptions, WebSocket } from "ws";
 
 import { serve } from "@hono/node-server";
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
 import { z } from "zod";
+import { AlignedDataScheduler } from "./alignedDataScheduler";
+import { CertificateStore } from "./certificateStore";
+import { ChargingProfileManager } from "./chargingProfileManager";
+import { ConfigurationStore } from "./configurationStore";
+import { ConnectorStateMachine } from "./connectorStateMachine";
+import { DeviceModel } from "./deviceModel";
+import { FirmwareManager, type FirmwareStatus } from "./firmwareManager";
+import {
+  authorizeIdToken,
+  stopAuthorizedTransaction,
+} from "./idTokenAuthorization";
+import {
+  type AuthCachePolicy,
+  type AuthorizationInfo,
+  LocalAuthorization,
+  authorizeIdTag,
+} from "./localAuthorization";
 import { logger } from "./logger";
 import { call } from "./messageFactory";
+import { OcppError, ocppErrorFromZodIssues } from "./ocppError";
 import type { OcppCall, OcppCallError, OcppCallResult } from "./ocppMessage";
 import {
   type OcppMessageHandler,
   resolveMessageHandler,
 } from "./ocppMessageHandler";
-import { ocppOutbox } from "./ocppOutbox";
-import { type OcppVersion, toProtocolVersion } from "./ocppVersion";
+import { OcppOutbox, type PendingCall } from "./ocppOutbox";
+import { OcppVersion, toProtocolVersion } from "./ocppVersion";
+import { OfflineQueue, isTransactionMessage } from "./offlineQueue";
+import {
+  type ReconnectOptions,
+  type ReconnectPolicy,
+  reconnectDelay,
+  resolveReconnectPolicy,
+} from "./reconnectPolicy";
 import {
-  validateOcppIncomingRequest,
-  validateOcppIncomingResponse,
-  validateOcppOutgoingRequest,
-  validateOcppOutgoingResponse,
+  type CallOutcome,
+  type PendingRequest,
+  RequestPipeline,
+} from "./requestPipeline";
+import { ReservationManager } from "./reservationManager";
+import {
+  SchemaValidator,
+  type ValidationMode,
+  type ValidationViolation,
 } from "./schemaValidator";
-import { TransactionManager } from "./transactionManager";
+import {
+  type SecurityProfile,
+  type TlsOptions,
+  buildTlsClientOptions,
+  resolveSecurityProfile,
+} from "./securityProfile";
+import { TraceRecorder } from "./traceRecorder";
+import {
+  TransactionManager,
+  type TransactionState,
+} from "./transactionManager";
+import { NOOP } from "./utils";
 import { heartbeatOcppMessage } from "./v16/messages/heartbeat";
+import { VariableMonitoring } from "./variableMonitoring";
+
+const DEFAULT_CALL_TIMEOUT_MS = 30_000;
+const DEFAULT_TRANSACTION_MESSAGE_ATTEMPTS = 3;
+const DEFAULT_TRANSACTION_MESSAGE_RETRY_INTERVAL = 10;
+// OCPP-J messageId used when replying to a message whose id could not be read
+const UNKNOWN_MESSAGE_ID = "-1";
+// OCPP 2.1 actions sent as SEND (type 6), the CSMS never answers them
+const UNCONFIRMED_ACTIONS = ["NotifyPeriodicEventStream"];
 
 interface ChargePointConfig {
   // Charger identity
@@ -31,17 +82,36 @@ interface ChargePointConfig {
   firmwareVersion?: string;
   // Charger capabilities
   numberOfConnectors?: number;
+  numberOfPhases?: number; // Default 3
+  maxCurrent?: number; // Amps per phase without a charging limit, default 32
   // Meter configuration
   meterType?: string;
   meterSerialNumber?: string;
   // Configuration values (can be overridden)
   meterValueSampleInterval?: number;
   heartbeatInterval?: number;
+  // Clock-aligned meter values (ClockAlignedDataInterval / AlignedDataCtrlr, in seconds)
+  alignedDataInterval?: number;
+  alignedDataMeasurands?: string[]; // OCPP 2.x, 1.6 uses MeterValuesAlignedData
+  alignedDataSendDuringIdle?: boolean; // OCPP 2.x
   connectionTimeOut?: number;
   // Authorization
   authorizeRemoteTxRequests?: boolean;
   localAuthorizeOffline?: boolean;
   localPreAuthorize?: boolean;
+  localAuthListEnabled?: boolean;
+  authCacheEnabled?: boolean;
+  // OCPP 2.x AuthCacheCtrlr
+  authCacheLifeTime?: number; // Seconds, 0 keeps entries until they are evicted
+  authCachePolicy?: AuthCachePolicy; // Which entry is evicted when the cache is full
+  authCacheMaxStorage?: number; // Bytes, default 64KiB
+  // Transaction message retries (TransactionMessageRetryInterval in seconds)
+  transactionMessageAttempts?: number;
+  transactionMessageRetryInterval?: number;
+  // Reconnection back-off (OCPP 2.x OCPPCommCtrlr, in seconds)
+  retryBackOffWaitMinimum?: number;
+  retryBackOffRandomRange?: number;
+  retryBackOffRepeatTimes?: number;
 }
 
 interface VCPOptions {
@@ -49,14 +119,57 @@ interface VCPOptions {
   endpoint: string;
   chargePointId: string;
   basicAuthPassword?: string;
+  tls?: TlsOptions; // CA, certificate verification and client certificate for wss:// endpoints
   adminPort?: number;
   config?: ChargePointConfig;
+  validationMode?: ValidationMode; // Schema validation of CSMS messages, default "warn"
+  callTimeoutMs?: number; // How long to wait for a CallResult/CallError, default 30s
+  stateDir?: string; // Directory for persisted per-charger state (e.g. the offline queue)
+  traceFile?: string; // Write a JSONL trace of all messages to this file
   exitOnClose?: boolean; // If false, don't exit process on connection close
-  onClose?: (code: number, reason: string) => void; // Callback for connection close
+  reconnect?: ReconnectOptions | false; // Reconnect policy, false disables reconnecting
+  onClose?: (code: number, reason: string) => void; // Callback for connection close (after reconnecting gave up)
   onError?: (error: Error) => void; // Callback for connection errors
+  onReconnecting?: (attempt: number, delayMs: number) => void; // Callback before each reconnect attempt
+  onReconnected?: (attempts: number) => void; // Callback once the connection is re-established
 }
 
-export type { ChargePointConfig };
+// biome-ignore lint/suspicious/noExplicitAny: ocpp types
+type AnyOcppMessage = OcppCall<any> | OcppCallResult<any> | OcppCallError<any>;
+
+// Events emitted by a VCP, so consumers can react to protocol activity
+// instead of polling its state
+interface VCPEvents {
+  connected: [];
+  disconnected: [code: number, reason: string];
+  reconnecting: [attempt: number, delayMs: number];
+  reconnected: [attempts: number];
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  callReceived: [call: OcppCall<any>];
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  callResultReceived: [result: OcppCallResult<any>];
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  callErrorReceived: [error: OcppCallError<any>];
+  // OCPP 2.1 unconfirmed SEND and CALLRESULTERROR messages
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  sendReceived: [call: OcppCall<any>];
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  callResultErrorReceived: [error: OcppCallError<any>];
+  messageSent: [message: AnyOcppMessage];
+  validationViolation: [violation: ValidationViolation];
+  transactionStarted: [transaction: TransactionState];
+  transactionStopped: [transaction: TransactionState];
+  configurationChanged: [key: string, value: string];
+  // Offered current of a connector (1.6) or EVSE (2.x) after its charging
+  // profiles changed it, in A per phase
+  chargingLimitChanged: [connectorId: number, limitA: number];
+  // Step of a firmware update, as reported to the CSMS
+  firmwareStatusChanged: [status: FirmwareStatus];
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  bootAccepted: [payload: any];
+}
+
+export type { ChargePointConfig, VCPEvents };
 
 interface LogEntry {
   type: "Application";
@@ -66,20 +179,142 @@ interface LogEntry {
   metadata: Record<string, unknown>;
 }
 
-export class VCP {
+export class VCP extends EventEmitter<VCPEvents> {
   private ws?: WebSocket;
   private messageHandler: OcppMessageHandler;
 
   private isFinishing = false;
+  // Set until the first connection of connect() opened, a failure before that
+  // is not reconnected
+  private isFirstConnect = false;
+  // Set once the CSMS accepted the BootNotification of the current connection
+  private isBootAccepted = false;
+  private isReplayingOfflineQueue = false;
+  // Set when reconnecting, the StatusNotifications are re-sent once the CSMS
+  // accepted the BootNotification
+  private isStatusResendPending = false;
+  // 2.x boot reason of a reboot, sent until a BootNotification with it was
+  // accepted, also when the reboot only reconnects after failed attempts
+  private pendingBootReason?: string;
+  private heartbeatTimer?: NodeJS.Timeout;
 
-  transactionManager = new TransactionManager();
+  private reconnectPolicy?: ReconnectPolicy;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  // Last BootNotification and StatusNotifications, re-sent after reconnecting
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private lastBootNotification?: OcppCall<any>;
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private lastStatusNotifications: Map<string, OcppCall<any>> = new Map();
+
+  transactionManager: TransactionManager;
+  private alignedDataScheduler: AlignedDataScheduler;
+  connectors: ConnectorStateMachine;
+  reservations: ReservationManager;
+  chargingProfiles: ChargingProfileManager;
+  // OCPP 2.x components and variables
+  deviceModel: DeviceModel;
+  variableMonitoring: VariableMonitoring;
+  firmware: FirmwareManager;
+  offlineQueue: OfflineQueue;
+  private outbox = new OcppOutbox();
+  private requestPipeline: RequestPipeline;
+  private schemaValidator: SchemaValidator;
+  private traceRecorder?: TraceRecorder;
+  // Callers waiting for a queued offline message to be replayed and answered
+  private offlineWaiters: Map<
+    string,
+    Pick<PendingRequest, "resolve" | "reject">
+  > = new Map();
 
   // Charger-specific configuration accessible to message handlers
   config: ChargePointConfig;
+  // OCPP 1.6 configuration keys, initialized from config
+  configuration: ConfigurationStore;
+  // Local authorization list and authorization cache
+  localAuthorization: LocalAuthorization;
+  // Root certificates installed by the CSMS
+  certificates: CertificateStore;
+  readonly securityProfile: SecurityProfile;
+  private tlsClientOptions: ClientOptions;
 
   constructor(private vcpOptions: VCPOptions) {
+    super();
     this.config = vcpOptions.config ?? {};
+    this.securityProfile = resolveSecurityProfile(
+      vcpOptions.endpoint,
+      vcpOptions.basicAuthPassword,
+      vcpOptions.tls,
+    );
+    this.tlsClientOptions = buildTlsClientOptions(vcpOptions.tls);
+    this.configuration = new ConfigurationStore(
+      this.config,
+      this.securityProfile,
+      vcpOptions.stateDir,
+    );
+    this.localAuthorization = new LocalAuthorization(vcpOptions.stateDir);
+    this.certificates = new CertificateStore(vcpOptions.stateDir);
+    this.transactionManager = new TransactionManager(
+      () => this.configuration.getInteger("MeterValueSampleInterval") ?? 0,
+    );
+    this.alignedDataScheduler = new AlignedDataScheduler(
+      this,
+      vcpOptions.ocppVersion,
+    );
+    this.connectors = new ConnectorStateMachine(this, vcpOptions.ocppVersion);
+    this.reservations = new ReservationManager(this, vcpOptions.ocppVersion);
+    this.chargingProfiles = new ChargingProfileManager(
+      this,
+      vcpOptions.ocppVersion,
+      vcpOptions.stateDir,
+    );
+    this.deviceModel = new DeviceModel(this, vcpOptions.stateDir);
+    this.variableMonitoring = new VariableMonitoring(
+      this,
+      vcpOptions.ocppVersion,
+      vcpOptions.stateDir,
+    );
+    this.firmware = new FirmwareManager(this, vcpOptions.ocppVersion);
+    this.on("configurationChanged", (key) => this._applyConfiguration(key));
+    // Clock-aligned meter values, charging limits and monitoring start once
+    // the CSMS accepted the charger
+    this.on("bootAccepted", () => {
+      this.alignedDataScheduler.start();
+      this.chargingProfiles.start();
+      this.variableMonitoring.start();
+    });
+    if (vcpOptions.traceFile) {
+      this.traceRecorder = new TraceRecorder(vcpOptions.traceFile);
+    }
     this.messageHandler = resolveMessageHandler(vcpOptions.ocppVersion);
+    this.schemaValidator = new SchemaValidator(
+      vcpOptions.ocppVersion,
+      vcpOptions.validationMode ?? "warn",
+    );
+    this.offlineQueue = new OfflineQueue(
+      vcpOptions.ocppVersion,
+      vcpOptions.stateDir,
+    );
+    this.requestPipeline = new RequestPipeline({
+      transmit: (ocppCall) => this._transmit(ocppCall),
+      abandon: (ocppCall) => this.outbox.remove(ocppCall.messageId),
+      callTimeoutMs: vcpOptions.callTimeoutMs ?? DEFAULT_CALL_TIMEOUT_MS,
+      isRetryable: (ocppCall) =>
+        isTransactionMessage(vcpOptions.ocppVersion, ocppCall),
+      maxAttempts: () =>
+        this.configuration.getInteger("TransactionMessageAttempts") ??
+        DEFAULT_TRANSACTION_MESSAGE_ATTEMPTS,
+      retryIntervalMs: () =>
+        (this.configuration.getInteger("TransactionMessageRetryInterval") ??
+          DEFAULT_TRANSACTION_MESSAGE_RETRY_INTERVAL) * 1000,
+    });
+    if (vcpOptions.reconnect !== false) {
+      this.reconnectPolicy = resolveReconnectPolicy(
+        vcpOptions.ocppVersion,
+        this.config,
+        vcpOptions.reconnect,
+      );
+    }
     if (vcpOptions.adminPort) {
       const adminApi = new Hono();
       adminApi.get("/health", (c) => c.text("OK"));
@@ -92,8 +327,19 @@ export class VCP {
             payload: z.any(),
           }),
         ),
-        (c) => {
+        async (c) => {
           const validated = c.req.valid("json");
+          if (validated.action === "Authorize") {
+            // Authorized like a tap at the charger, so also while offline
+            return c.json(await this._authorizeTap(validated.payload));
+          }
+          if (
+            this._supportsRpcExtensions() &&
+            UNCONFIRMED_ACTIONS.includes(validated.action)
+          ) {
+            this.sendUnconfirmed(call(validated.action, validated.payload));
+            return c.text("OK");
+          }
           this.send(call(validated.action, validated.payload));
           return c.text("OK");
         },
@@ -108,11 +354,17 @@ export class VCP {
   async connect(): Promise<void> {
     logger.info(`Connecting... | ${util.inspect(this.vcpOptions)}`);
     this.isFinishing = false;
+    this.isFirstConnect = true;
+    this.reconnectAttempt = 0;
+    return this._openWebSocket();
+  }
+
+  private _openWebSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
       const websocketUrl = `${this.vcpOptions.endpoint}/${this.vcpOptions.chargePointId}`;
       const protocol = toProtocolVersion(this.vcpOptions.ocppVersion);
       this.ws = new WebSocket(websocketUrl, [protocol], {
-        rejectUnauthorized: false,
+        ...this.tlsClientOptions,
         followRedirects: true,
         headers: {
           ...(this.vcpOptions.basicAuthPassword && {
@@ -123,7 +375,12 @@ export class VCP {
         },
       });
 
-      this.ws.on("open", () => resolve());
+      this.ws.on("open", () => {
+        this.isFirstConnect = false;
+        this.requestPipeline.resume();
+        this.emit("connected");
+        resolve();
+      });
       this.ws.on("message", (message: string) => this._onMessage(message));
       this.ws.on("ping", () => {
         logger.info("Received PING");
@@ -144,56 +401,79 @@ export class VCP {
     });
   }
 
+  // Number of schema violations in CSMS messages, per action
+  getValidationViolations(): Record<string, number> {
+    return this.schemaValidator.getViolationCounts();
+  }
+
+  get ocppVersion(): OcppVersion {
+    return this.vcpOptions.ocppVersion;
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  // Calls sent to the CSMS that were not answered yet
+  getPendingCalls(): PendingCall[] {
+    return this.outbox.list();
+  }
+
+  // Sends a CALL and resolves with the CallResult or CallError it was answered
+  // with. Rejects when it times out or cannot be sent while offline.
+  // Transaction messages are queued until the BootNotification was accepted
+  // and the ones queued before them were delivered.
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
-  send(ocppCall: OcppCall<any>) {
-    if (!this.ws) {
-      throw new Error("Websocket not initialized. Call connect() first");
+  call(ocppCall: OcppCall<any>): Promise<CallOutcome> {
+    this._rememberForReconnect(ocppCall);
+    if (
+      this.offlineQueue.accepts(ocppCall) &&
+      (!this.isBootAccepted || this.offlineQueue.size > 0)
+    ) {
+      return this._queueOffline(ocppCall);
     }
-    ocppOutbox.enqueue(ocppCall);
-    const jsonMessage = JSON.stringify([
-      2,
-      ocppCall.messageId,
-      ocppCall.action,
-      ocppCall.payload,
-    ]);
-    logger.info(`Sending message ➡️  ${jsonMessage}`);
-    validateOcppOutgoingRequest(
-      this.vcpOptions.ocppVersion,
-      ocppCall.action,
-      JSON.parse(JSON.stringify(ocppCall.payload)),
-    );
-    this.ws.send(jsonMessage);
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(
+        new Error(`Not connected, dropping ${ocppCall.action}`),
+      );
+    }
+    return this.requestPipeline.enqueue(ocppCall);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  send(ocppCall: OcppCall<any>) {
+    this.call(ocppCall).catch((err: Error) => logger.warn(err.message));
   }
 
+  // Resolves once the CALL was answered
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   sendAsync(ocppCall: OcppCall<any>): Promise<void> {
-    if (!this.ws) {
-      return Promise.reject(
-        new Error("Websocket not initialized. Call connect() first"),
+    return this.call(ocppCall).then(NOOP);
+  }
+
+  // Sends an OCPP 2.1 SEND message: it is not answered and does not wait for
+  // the outstanding CALL. Dropped while offline.
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  sendUnconfirmed(ocppCall: OcppCall<any>) {
+    if (!this._supportsRpcExtensions()) {
+      throw new Error(
+        `SEND messages are not supported by ${this.vcpOptions.ocppVersion}`,
       );
     }
-    ocppOutbox.enqueue(ocppCall);
-    const jsonMessage = JSON.stringify([
-      2,
-      ocppCall.messageId,
-      ocppCall.action,
-      ocppCall.payload,
-    ]);
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      logger.warn(`Not connected, dropping ${ocppCall.action}`);
+      return;
+    }
+    const frame = [6, ocppCall.messageId, ocppCall.action, ocppCall.payload];
+    const jsonMessage = JSON.stringify(frame);
     logger.info(`Sending message ➡️  ${jsonMessage}`);
-    validateOcppOutgoingRequest(
-      this.vcpOptions.ocppVersion,
+    const issues = this.schemaValidator.validateOutgoingRequest(
       ocppCall.action,
       JSON.parse(JSON.stringify(ocppCall.payload)),
     );
-    return new Promise((resolve, reject) => {
-      this.ws!.send(jsonMessage, (err) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
-    });
+    this.ws.send(jsonMessage);
+    this.traceRecorder?.record("out", frame, issues);
+    this.emit("messageSent", ocppCall);
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
@@ -201,34 +481,37 @@ export class VCP {
     if (!this.ws) {
       throw new Error("Websocket not initialized. Call connect() first");
     }
-    const jsonMessage = JSON.stringify([3, result.messageId, result.payload]);
+    const frame = [3, result.messageId, result.payload];
+    const jsonMessage = JSON.stringify(frame);
     logger.info(`Responding with ➡️  ${jsonMessage}`);
-    validateOcppIncomingResponse(
-      this.vcpOptions.ocppVersion,
+    const issues = this.schemaValidator.validateIncomingResponse(
       result.action,
       JSON.parse(JSON.stringify(result.payload)),
     );
     this.ws.send(jsonMessage);
+    this.traceRecorder?.record("out", frame, issues);
+    this.emit("messageSent", result);
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: ocpp types
   respondError(error: OcppCallError<any>) {
-    if (!this.ws) {
-      throw new Error("Websocket not initialized. Call connect() first");
+    this._sendError(4, error);
+  }
+
+  // Reports a CallResult that could not be processed (OCPP 2.1 CALLRESULTERROR)
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  respondResultError(error: OcppCallError<any>) {
+    if (!this._supportsRpcExtensions()) {
+      throw new Error(
+        `CALLRESULTERROR messages are not supported by ${this.vcpOptions.ocppVersion}`,
+      );
     }
-    const jsonMessage = JSON.stringify([
-      4,
-      error.messageId,
-      error.errorCode,
-      error.errorDescription,
-      error.errorDetails,
-    ]);
-    logger.info(`Responding with ➡️  ${jsonMessage}`);
-    this.ws.send(jsonMessage);
+    this._sendError(5, error);
   }
 
   configureHeartbeat(interval: number) {
-    setInterval(() => {
+    this._stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
       this.send(heartbeatOcppMessage.request({}));
     }, interval);
   }
@@ -240,6 +523,14 @@ export class VCP {
       );
     }
     this.isFinishing = true;
+    this.isBootAccepted = false;
+    clearTimeout(this.reconnectTimer);
+    this._stopHeartbeat();
+    this.alignedDataScheduler.stop();
+    this.chargingProfiles.stop();
+    this.variableMonitoring.stop();
+    this.firmware.stop();
+    this._requeueUnanswered();
     this.ws.close();
     this.ws = undefined;
     if (this.vcpOptions.exitOnClose !== false) {
@@ -247,6 +538,49 @@ export class VCP {
     }
   }
 
+  // Simulates a reboot, e.g. to install firmware: the connection is closed and
+  // opened again, then the last BootNotification (with the current firmware
+  // version and, on 2.x, the boot reason) and StatusNotifications are re-sent.
+  // Later reconnects send the BootNotification without the reboot's reason.
+  async reboot(reason = "Unknown"): Promise<void> {
+    const ws = this.ws;
+    if (!ws) {
+      throw new Error("Websocket not initialized. Call connect() first");
+    }
+    if (this.lastBootNotification) {
+      const payload = { ...this.lastBootNotification.payload };
+      if (this.vcpOptions.ocppVersion === OcppVersion.OCPP_1_6) {
+        payload.firmwareVersion = this.config.firmwareVersion;
+      } else {
+        payload.chargingStation = {
+          ...payload.chargingStation,
+          firmwareVersion: this.config.firmwareVersion,
+        };
+      }
+      this.lastBootNotification = call(
+        this.lastBootNotification.action,
+        payload,
+      );
+    }
+    this.pendingBootReason = reason;
+    this.isFinishing = true;
+    clearTimeout(this.reconnectTimer);
+    this.alignedDataScheduler.stop();
+    this.chargingProfiles.stop();
+    this.variableMonitoring.stop();
+    // A connection lost before the reboot already closed
+    if (ws.readyState !== WebSocket.CLOSED) {
+      const closed = new Promise((resolve) => ws.once("close", resolve));
+      ws.close();
+      await closed;
+    }
+    this.isFinishing = false;
+    this.reconnectAttempt = 0;
+    this._applyPendingConfiguration();
+    // A failed attempt is retried like a lost connection
+    await this._openWebSocket().then(() => this._resendBootAndStatus(), NOOP);
+  }
+
   async getDiagnosticData(): Promise<LogEntry[]> {
     try {
       // Get logs from Winston logger's memory
@@ -292,52 +626,274 @@ export class VCP {
 
   private _onMessage(message: string) {
     logger.info(`Receive message ⬅️  ${message}`);
-    const data = JSON.parse(message);
+    let data: unknown;
+    try {
+      data = JSON.parse(message);
+    } catch {
+      this.traceRecorder?.recordMalformed(String(message));
+      this._respondWithError(
+        UNKNOWN_MESSAGE_ID,
+        new OcppError("FormatViolation", "Message is not valid JSON"),
+      );
+      return;
+    }
+    if (!Array.isArray(data) || typeof data[1] !== "string") {
+      this.traceRecorder?.recordMalformed(String(message));
+      this._respondWithError(
+        UNKNOWN_MESSAGE_ID,
+        new OcppError("RpcFrameworkError", "Message is not a valid RPC frame"),
+      );
+      return;
+    }
     const [type, ...rest] = data;
-    if (type === 2) {
+    const hasAction = typeof rest[1] === "string";
+    // CALL, CALLRESULT and SEND frames are traced once validated
+    if (!((type === 2 || type === 6) && hasAction) && type !== 3) {
+      this.traceRecorder?.record("in", data);
+    }
+    if (type === 2 && !hasAction) {
+      this._respondWithError(
+        rest[0],
+        new OcppError("RpcFrameworkError", "Action is missing"),
+      );
+    } else if (type === 2) {
       const [messageId, action, payload] = rest;
-      validateOcppIncomingRequest(this.vcpOptions.ocppVersion, action, payload);
-      this.messageHandler.handleCall(this, { messageId, action, payload });
+      this._onCall({ messageId, action, payload });
     } else if (type === 3) {
       const [messageId, payload] = rest;
-      const enqueuedCall = ocppOutbox.get(messageId);
-      if (!enqueuedCall) {
-        throw new Error(
-          `Received CallResult for unknown messageId=${messageId}`,
-        );
-      }
-      validateOcppOutgoingResponse(
-        this.vcpOptions.ocppVersion,
-        enqueuedCall.action,
-        payload,
-      );
-      this.messageHandler.handleCallResult(this, enqueuedCall, {
+      this._onCallResult(messageId, payload);
+    } else if (type === 4) {
+      const [messageId, errorCode, errorDescription, errorDetails] = rest;
+      this._onCallError({
         messageId,
-        payload,
-        action: enqueuedCall.action,
+        errorCode,
+        errorDescription,
+        errorDetails,
       });
-    } else if (type === 4) {
+    } else if (type === 5 && this._supportsRpcExtensions()) {
       const [messageId, errorCode, errorDescription, errorDetails] = rest;
-      this.messageHandler.handleCallError(this, {
+      this._onCallResultError({
         messageId,
         errorCode,
         errorDescription,
         errorDetails,
       });
+    } else if (type === 6 && this._supportsRpcExtensions()) {
+      const [messageId, action, payload] = rest;
+      if (!hasAction) {
+        logger.warn(`Ignoring SEND ${messageId} without action`);
+        return;
+      }
+      this._onSend({ messageId, action, payload });
     } else {
-      throw new Error(`Unrecognized message type ${type}`);
+      this._respondWithError(
+        rest[0],
+        new OcppError(
+          "MessageTypeNotSupported",
+          `Unrecognized message type ${type}`,
+        ),
+      );
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private async _onCall(incomingCall: OcppCall<any>) {
+    try {
+      const issues = this._checkReceived(2, incomingCall);
+      if (issues && this.schemaValidator.mode === "strict") {
+        throw ocppErrorFromZodIssues(incomingCall.action, issues);
+      }
+      this.emit("callReceived", incomingCall);
+      await this.messageHandler.handleCall(this, incomingCall);
+    } catch (err) {
+      this._respondWithError(incomingCall.messageId, err);
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private async _onCallResult(messageId: string, payload: any) {
+    const enqueuedCall = this.outbox.get(messageId);
+    if (!enqueuedCall) {
+      this.traceRecorder?.record("in", [3, messageId, payload]);
+      logger.warn(`Received CallResult for unknown messageId=${messageId}`);
+      return;
+    }
+    const result = { messageId, payload, action: enqueuedCall.action };
+    const issues = this._checkReceived(3, result);
+    if (issues && this.schemaValidator.mode === "strict") {
+      // Not handled, so the call fails as if it was never answered
+      const error = ocppErrorFromZodIssues(enqueuedCall.action, issues);
+      logger.error(
+        `Rejecting CallResult for ${enqueuedCall.action}: ${error.message}`,
+      );
+      if (this._supportsRpcExtensions()) {
+        this._respondWithError(messageId, error, 5);
+      }
+      this.requestPipeline.handleInvalidResult(messageId, error);
+      return;
+    }
+    try {
+      await this.messageHandler.handleCallResult(this, enqueuedCall, result);
+    } catch (err) {
+      logger.error(
+        `Failed to handle CallResult for ${enqueuedCall.action}: ${(err as Error).message}`,
+      );
+      if (this._supportsRpcExtensions()) {
+        this._respondWithError(messageId, err, 5);
+      }
+    }
+    this.emit("callResultReceived", result);
+    this.requestPipeline.handleCallResult(result);
+    if (
+      enqueuedCall.action === "BootNotification" &&
+      payload?.status === "Accepted"
+    ) {
+      this.isBootAccepted = true;
+      this.pendingBootReason = undefined;
+      this.emit("bootAccepted", payload);
+      this._resendStatus();
+      this._flushOfflineQueue();
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private _onCallError(error: OcppCallError<any>) {
+    this.messageHandler.handleCallError(this, error);
+    this.outbox.remove(error.messageId);
+    this.emit("callErrorReceived", error);
+    this.requestPipeline.handleCallError(error);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private _onCallResultError(error: OcppCallError<any>) {
+    if (typeof error.errorCode !== "string") {
+      logger.warn(`Ignoring malformed CALLRESULTERROR ${error.messageId}`);
+      return;
+    }
+    this.emit("callResultErrorReceived", error);
+    this.messageHandler.handleCallResultError?.(this, error);
+  }
+
+  // SEND messages are never answered, so invalid ones are only reported
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private _onSend(incomingSend: OcppCall<any>) {
+    const issues = this._checkReceived(6, incomingSend);
+    if (issues && this.schemaValidator.mode === "strict") {
+      return;
+    }
+    this.emit("sendReceived", incomingSend);
+    try {
+      this.messageHandler.handleSend?.(this, incomingSend);
+    } catch (err) {
+      logger.error(
+        `Failed to handle SEND ${incomingSend.action}: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  // Validates a CALL (2), CALLRESULT (3) or SEND (6) received from the CSMS,
+  // reports violations and traces the frame
+  private _checkReceived(
+    messageType: 2 | 3 | 6,
+    // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+    message: OcppCall<any> | OcppCallResult<any>,
+  ): z.ZodIssue[] | undefined {
+    const isResult = messageType === 3;
+    const issues = isResult
+      ? this.schemaValidator.validateOutgoingResponse(
+          message.action,
+          message.payload,
+        )
+      : this.schemaValidator.validateIncomingRequest(
+          message.action,
+          message.payload,
+        );
+    this.traceRecorder?.record(
+      "in",
+      isResult
+        ? [messageType, message.messageId, message.payload]
+        : [messageType, message.messageId, message.action, message.payload],
+      issues,
+    );
+    if (issues) {
+      this.emit("validationViolation", {
+        action: message.action,
+        messageId: message.messageId,
+        kind: isResult ? "response" : "request",
+        issues,
+      });
     }
+    return issues;
+  }
+
+  // Replies with a CALLERROR (4) or, for a CallResult, a CALLRESULTERROR (5)
+  private _respondWithError(messageId: string, err: unknown, type: 4 | 5 = 4) {
+    const ocppError =
+      err instanceof OcppError
+        ? err
+        : new OcppError("InternalError", (err as Error).message);
+    logger.warn(`Replying with ${ocppError.errorCode}: ${ocppError.message}`);
+    try {
+      this._sendError(
+        type,
+        ocppError.toCallError(this.vcpOptions.ocppVersion, messageId),
+      );
+    } catch (respondErr) {
+      logger.error(
+        `Failed to send CallError: ${(respondErr as Error).message}`,
+      );
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private _sendError(type: 4 | 5, error: OcppCallError<any>) {
+    if (!this.ws) {
+      throw new Error("Websocket not initialized. Call connect() first");
+    }
+    const frame = [
+      type,
+      error.messageId,
+      error.errorCode,
+      error.errorDescription,
+      error.errorDetails,
+    ];
+    const jsonMessage = JSON.stringify(frame);
+    logger.info(`Responding with ➡️  ${jsonMessage}`);
+    this.ws.send(jsonMessage);
+    this.traceRecorder?.record("out", frame);
+    this.emit("messageSent", error);
+  }
+
+  // SEND and CALLRESULTERROR were added to the RPC framework in OCPP 2.1
+  private _supportsRpcExtensions(): boolean {
+    return this.vcpOptions.ocppVersion === OcppVersion.OCPP_2_1;
   }
 
   private _onClose(code: number, reason: string) {
+    this.isBootAccepted = false;
+    this._stopHeartbeat();
+    this._requeueUnanswered();
+    this.emit(
+      "disconnected",
+      code,
+      typeof reason === "string" ? reason : String(reason),
+    );
     if (this.isFinishing) {
       return;
     }
     logger.info(`Connection closed. code=${code}, reason=${reason}`);
 
+    // connect() rejected, its caller decides whether to try again
+    if (!this.isFirstConnect && this._scheduleReconnect()) {
+      return;
+    }
+
     // Call the onClose callback if provided
     if (this.vcpOptions.onClose) {
-      this.vcpOptions.onClose(code, typeof reason === 'string' ? reason : String(reason));
+      this.vcpOptions.onClose(
+        code,
+        typeof reason === "string" ? reason : String(reason),
+      );
     }
 
     // Only exit if exitOnClose is not explicitly set to false
@@ -345,4 +901,243 @@ export class VCP {
       process.exit();
     }
   }
+
+  private _scheduleReconnect(): boolean {
+    if (!this.reconnectPolicy) {
+      return false;
+    }
+    if (this.reconnectAttempt >= this.reconnectPolicy.maxAttempts) {
+      logger.error(
+        `Giving up reconnecting after ${this.reconnectAttempt} attempts`,
+      );
+      return false;
+    }
+    this.reconnectAttempt++;
+    const delayMs = reconnectDelay(this.reconnectPolicy, this.reconnectAttempt);
+    logger.info(
+      `Reconnecting in ${delayMs}ms (attempt ${this.reconnectAttempt})`,
+    );
+    this.vcpOptions.onReconnecting?.(this.reconnectAttempt, delayMs);
+    this.emit("reconnecting", this.reconnectAttempt, delayMs);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this._openWebSocket().then(
+        () => this._onReconnected(),
+        // the "close" event that follows a failed attempt schedules the next one
+        NOOP,
+      );
+    }, delayMs);
+    return true;
+  }
+
+  private _onReconnected() {
+    const attempts = this.reconnectAttempt;
+    this.reconnectAttempt = 0;
+    logger.info(`Reconnected after ${attempts} attempt(s)`);
+    this._applyPendingConfiguration();
+    this._resendBootAndStatus();
+    this.vcpOptions.onReconnected?.(attempts);
+    this.emit("reconnected", attempts);
+  }
+
+  // Re-sends the last BootNotification, on 2.x with the reason of a pending
+  // reboot, and the StatusNotifications once it was accepted
+  private _resendBootAndStatus() {
+    const bootNotification = this.lastBootNotification;
+    if (bootNotification) {
+      const payload = { ...bootNotification.payload };
+      if (
+        this.pendingBootReason &&
+        this.vcpOptions.ocppVersion !== OcppVersion.OCPP_1_6
+      ) {
+        payload.reason = this.pendingBootReason;
+      }
+      this.send(call(bootNotification.action, payload));
+      // Sending remembers it, the reason only applies to this boot
+      this.lastBootNotification = bootNotification;
+    }
+    this.isStatusResendPending = true;
+  }
+
+  // Neither 1.6 nor 2.x allow StatusNotifications before the boot was accepted
+  private _resendStatus() {
+    if (!this.isStatusResendPending) {
+      return;
+    }
+    this.isStatusResendPending = false;
+    for (const statusNotification of Array.from(
+      this.lastStatusNotifications.values(),
+    )) {
+      const payload = { ...statusNotification.payload };
+      if (payload.timestamp) {
+        payload.timestamp = new Date().toISOString();
+      }
+      this.send(call(statusNotification.action, payload));
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private _transmit(ocppCall: OcppCall<any>) {
+    if (!this.ws) {
+      throw new Error("Websocket not initialized. Call connect() first");
+    }
+    this.outbox.enqueue(ocppCall);
+    const frame = [2, ocppCall.messageId, ocppCall.action, ocppCall.payload];
+    const jsonMessage = JSON.stringify(frame);
+    logger.info(`Sending message ➡️  ${jsonMessage}`);
+    const issues = this.schemaValidator.validateOutgoingRequest(
+      ocppCall.action,
+      JSON.parse(JSON.stringify(ocppCall.payload)),
+    );
+    this.ws.send(jsonMessage);
+    this.traceRecorder?.record("out", frame, issues);
+    this.emit("messageSent", ocppCall);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private _queueOffline(ocppCall: OcppCall<any>): Promise<CallOutcome> {
+    const offline = !this.isConnected();
+    logger.info(
+      offline
+        ? `Offline, queueing ${ocppCall.action} ⏸️`
+        : `Queueing ${ocppCall.action} behind the BootNotification and queued messages ⏸️`,
+    );
+    this.offlineQueue.enqueue(ocppCall, offline);
+    return new Promise((resolve, reject) => {
+      this.offlineWaiters.set(ocppCall.messageId, { resolve, reject });
+    });
+  }
+
+  // Delivers the queued messages one at a time, each removed from the queue
+  // once it was answered (or given up on after its retries). Messages queued
+  // during the replay are delivered after the ones before them.
+  private async _flushOfflineQueue() {
+    if (this.isReplayingOfflineQueue || this.offlineQueue.size === 0) {
+      return;
+    }
+    this.isReplayingOfflineQueue = true;
+    logger.info(
+      `Replaying ${this.offlineQueue.size} queued offline message(s)`,
+    );
+    let queuedCall = this.offlineQueue.peek();
+    while (queuedCall && this.isBootAccepted) {
+      const { messageId } = queuedCall;
+      const waiter = this.offlineWaiters.get(messageId);
+      try {
+        const outcome = await this.requestPipeline.enqueue(queuedCall);
+        this.offlineWaiters.delete(messageId);
+        this.offlineQueue.remove(messageId);
+        waiter?.resolve(outcome);
+      } catch (err) {
+        // The connection closed, it is replayed after the next boot
+        if (!this.isBootAccepted) {
+          break;
+        }
+        this.offlineWaiters.delete(messageId);
+        this.offlineQueue.remove(messageId);
+        if (waiter) {
+          waiter.reject(err as Error);
+        } else {
+          logger.warn((err as Error).message);
+        }
+      }
+      queuedCall = this.offlineQueue.peek();
+    }
+    this.isReplayingOfflineQueue = false;
+  }
+
+  // Unanswered transaction messages go back to the offline queue, anything
+  // else is given up on
+  private _requeueUnanswered() {
+    this.outbox.clear();
+    for (const request of this.requestPipeline.pause()) {
+      if (this.offlineQueue.has(request.call.messageId)) {
+        // Being replayed, it stays queued for the replay after the next boot
+        request.reject(
+          new Error(
+            `Connection closed before ${request.call.action} was answered`,
+          ),
+        );
+      } else if (this.offlineQueue.accepts(request.call)) {
+        // Sent while online, so not marked as offline when it is re-sent
+        this.offlineQueue.enqueue(request.call, false);
+        this.offlineWaiters.set(request.call.messageId, request);
+      } else {
+        request.reject(
+          new Error(
+            `Connection closed before ${request.call.action} was answered`,
+          ),
+        );
+      }
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private _rememberForReconnect(ocppCall: OcppCall<any>) {
+    if (ocppCall.action === "BootNotification") {
+      this.lastBootNotification = ocppCall;
+    } else if (ocppCall.action === "StatusNotification") {
+      const { evseId, connectorId } = ocppCall.payload;
+      const key =
+        evseId !== undefined ? `${evseId}/${connectorId}` : `${connectorId}`;
+      this.lastStatusNotifications.set(key, ocppCall);
+      this.connectors.follow(ocppCall.payload);
+    }
+  }
+
+  private _stopHeartbeat() {
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = undefined;
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: ocpp types
+  private async _authorizeTap(payload: any): Promise<AuthorizationInfo> {
+    // On 2.x a tap at an EVSE with a transaction the idToken may stop (its own
+    // or one of its group) stops it
+    if (
+      this.vcpOptions.ocppVersion !== OcppVersion.OCPP_1_6 &&
+      (await stopAuthorizedTransaction(this, payload.idToken, payload.evseId))
+    ) {
+      return { status: "Accepted" };
+    }
+    const authorization =
+      this.vcpOptions.ocppVersion === OcppVersion.OCPP_1_6
+        ? await authorizeIdTag(this, payload.idTag)
+        : await authorizeIdToken(this, payload.idToken);
+    logger.info(`Authorization result: ${JSON.stringify(authorization)}`);
+    return authorization;
+  }
+
+  // Configuration keys changed with RebootRequired take effect now
+  private _applyPendingConfiguration() {
+    for (const key of this.configuration.applyPending()) {
+      this.emit("configurationChanged", key, this.configuration.get(key) ?? "");
+    }
+  }
+
+  // Applies a changed configuration key to the running charger
+  private _applyConfiguration(key: string) {
+    switch (key) {
+      case "HeartbeatInterval": {
+        // The heartbeat only runs once the BootNotification was accepted
+        if (!this.heartbeatTimer) {
+          return;
+        }
+        const intervalSec = this.configuration.getInteger(key) ?? 0;
+        if (intervalSec > 0) {
+          this.configureHeartbeat(intervalSec * 1000);
+        } else {
+          this._stopHeartbeat();
+        }
+        return;
+      }
+      case "MeterValueSampleInterval":
+        this.transactionManager.rescheduleMeterValues();
+        return;
+      case "ClockAlignedDataInterval":
+      case "AlignedDataCtrlr.Interval":
+        this.alignedDataScheduler.start();
+        return;
+    }
+  }
 }